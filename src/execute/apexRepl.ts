@@ -0,0 +1,231 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import * as path from 'path';
+import * as readline from 'readline';
+import { nls } from '../i18n';
+import { DebugLevelCategories } from '../utils';
+import {
+  DEBUG_LEVEL_CATEGORIES,
+  LOG_CATEGORY_LEVELS
+} from '../utils/debugLevels';
+import { ExecuteService } from './executeService';
+import { ApexReplOptions, ExecuteAnonymousResponse } from './types';
+
+const REPL_PROMPT = 'apex> ';
+const REPL_CONTINUATION_PROMPT = '...> ';
+const REPL_HISTORY_SIZE = 500;
+const DEFAULT_REPL_DELIMITER = '/';
+// commands that also apply while a block is being typed
+const REPL_BLOCK_COMMANDS = [':clear', ':quit', ':exit'];
+
+/**
+ * Interactive session that executes each block of anonymous Apex as soon as
+ * it is ended by the delimiter line, and prints its debug output.
+ */
+export class ApexRepl {
+  private readonly executeService: ExecuteService;
+  private readonly options: ApexReplOptions;
+  private readonly output: NodeJS.WritableStream;
+  private readonly delimiter: string;
+  private logLevels: DebugLevelCategories;
+  private block: string[] = [];
+  private lastLog?: string;
+
+  constructor(executeService: ExecuteService, options: ApexReplOptions = {}) {
+    this.executeService = executeService;
+    this.options = options;
+    this.output = options.output ?? process.stdout;
+    this.delimiter = options.delimiter ?? DEFAULT_REPL_DELIMITER;
+    this.logLevels = { ...options.logLevels };
+  }
+
+  /**
+   * Reads and executes blocks until the input ends or :quit is typed
+   */
+  public async start(): Promise<void> {
+    const readInterface = readline.createInterface({
+      input: this.options.input ?? process.stdin,
+      output: this.output,
+      terminal: !!(this.output as NodeJS.WriteStream).isTTY,
+      history: await this.loadCommandHistory(),
+      historySize: REPL_HISTORY_SIZE
+    });
+    this.write(nls.localize('execAnonReplWelcome', this.delimiter));
+    readInterface.setPrompt(REPL_PROMPT);
+    readInterface.prompt();
+
+    try {
+      for await (const line of readInterface) {
+        if (await this.handleLine(line)) {
+          break;
+        }
+        readInterface.setPrompt(
+          this.block.length ? REPL_CONTINUATION_PROMPT : REPL_PROMPT
+        );
+        readInterface.prompt();
+      }
+    } finally {
+      readInterface.close();
+    }
+  }
+
+  /**
+   * @param line typed line
+   * @returns whether the session should end
+   */
+  public async handleLine(line: string): Promise<boolean> {
+    const trimmed = line.trim();
+    if (trimmed) {
+      await this.saveCommandHistory(line);
+    }
+
+    if (
+      (!this.block.length && trimmed.startsWith(':')) ||
+      REPL_BLOCK_COMMANDS.includes(trimmed)
+    ) {
+      return this.runCommand(trimmed);
+    }
+    if (trimmed === this.delimiter) {
+      const apexCode = this.block.join('\n');
+      this.block = [];
+      if (apexCode.trim()) {
+        await this.execute(apexCode);
+      }
+      return false;
+    }
+    this.block.push(line);
+    return false;
+  }
+
+  private async runCommand(command: string): Promise<boolean> {
+    const [name, ...args] = command.split(/\s+/);
+    switch (name) {
+      case ':quit':
+      case ':exit':
+        return true;
+      case ':help':
+        this.write(nls.localize('execAnonReplHelp'));
+        break;
+      case ':clear':
+        this.block = [];
+        break;
+      case ':log':
+        this.write(
+          this.lastLog
+            ? `${this.lastLog.trimEnd()}\n`
+            : nls.localize('execAnonReplNoLog')
+        );
+        break;
+      case ':load':
+        try {
+          await this.execute(this.executeService.readApexFile(args.join(' ')));
+        } catch (e) {
+          this.write(`${e.message}\n`);
+        }
+        break;
+      case ':level':
+        this.setLogLevels(args);
+        break;
+      default:
+        this.write(nls.localize('execAnonReplUnknownCommand', name));
+    }
+    return false;
+  }
+
+  private setLogLevels(settings: string[]): void {
+    for (const setting of settings) {
+      const [categoryName, levelName] = setting.split('=');
+      const category = DEBUG_LEVEL_CATEGORIES.find(
+        (c) => c.toLowerCase() === categoryName.toLowerCase()
+      );
+      const level = LOG_CATEGORY_LEVELS.find(
+        (l) => l === levelName?.toUpperCase()
+      );
+      if (!category || !level) {
+        this.write(nls.localize('execAnonReplInvalidLevel', setting));
+        return;
+      }
+      this.logLevels[category] = level;
+    }
+
+    const levels = Object.entries(this.logLevels);
+    this.write(
+      levels.length
+        ? `${levels.map(([c, l]) => `${c}=${l}`).join(' ')}\n`
+        : nls.localize('execAnonReplDefaultLevels')
+    );
+  }
+
+  private async execute(apexCode: string): Promise<void> {
+    try {
+      const response = await this.executeService.executeAnonymous({
+        ...this.options,
+        logLevels: this.logLevels,
+        apexCode
+      });
+      this.lastLog = response.logs;
+      this.writeResponse(response);
+    } catch (e) {
+      this.write(`${e.message}\n`);
+    }
+  }
+
+  private writeResponse(response: ExecuteAnonymousResponse): void {
+    for (const entry of response.debugOutput ?? []) {
+      this.write(`[${entry.lineNumber}] ${entry.level} ${entry.message}\n`);
+    }
+    if (response.result !== undefined) {
+      this.write(`${JSON.stringify(response.result, null, 2)}\n`);
+    }
+    if (response.success) {
+      this.write(nls.localize('execAnonReplSuccess'));
+      return;
+    }
+    for (const diagnostic of response.diagnostic ?? []) {
+      this.write(
+        response.compiled
+          ? nls.localize('execAnonReplRuntimeError', [
+              String(diagnostic.lineNumber),
+              String(diagnostic.columnNumber),
+              diagnostic.exceptionMessage
+            ])
+          : nls.localize('execAnonReplCompileError', [
+              String(diagnostic.lineNumber),
+              String(diagnostic.columnNumber),
+              diagnostic.compileProblem
+            ])
+      );
+    }
+  }
+
+  private async loadCommandHistory(): Promise<string[]> {
+    const historyPath = this.options.commandHistoryPath;
+    if (!historyPath || !existsSync(historyPath)) {
+      return [];
+    }
+    // readline expects the most recent line first
+    return (await readFile(historyPath, 'utf8'))
+      .split('\n')
+      .filter((line) => line.trim())
+      .slice(-REPL_HISTORY_SIZE)
+      .reverse();
+  }
+
+  private async saveCommandHistory(line: string): Promise<void> {
+    const historyPath = this.options.commandHistoryPath;
+    if (historyPath) {
+      await mkdir(path.dirname(historyPath), { recursive: true });
+      await appendFile(historyPath, `${line}\n`);
+    }
+  }
+
+  private write(text: string): void {
+    this.output.write(text);
+  }
+}
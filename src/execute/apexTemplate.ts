@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { nls } from '../i18n';
+import { ApexTemplateValue, ApexTemplateVariables } from './types';
+
+// e.g. {{accountId}} or {{ accountId }}
+const PLACEHOLDER_REGEX = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+const apexEscapes: { [char: string]: string } = {
+  '\\': '\\\\',
+  "'": "\\'",
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t'
+};
+
+/**
+ * @param value raw string
+ * @returns quoted Apex string literal
+ */
+export function toApexStringLiteral(value: string): string {
+  return `'${value.replace(/[\\'\n\r\t]/g, (char) => apexEscapes[char])}'`;
+}
+
+function toApexLiteral(name: string, value: ApexTemplateValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  switch (typeof value) {
+    case 'string':
+      return toApexStringLiteral(value);
+    case 'boolean':
+      return String(value);
+    case 'number': {
+      const literal = String(value);
+      if (!Number.isFinite(value) || literal.includes('e')) {
+        break;
+      }
+      if (!Number.isInteger(value)) {
+        return literal;
+      }
+      if (!Number.isSafeInteger(value)) {
+        break;
+      }
+      return Math.abs(value) > 2147483647 ? `${literal}L` : literal;
+    }
+  }
+  throw new Error(nls.localize('execAnonTemplateInvalidVariable', name));
+}
+
+/**
+ * Replaces the {{name}} placeholders of anonymous Apex with Apex literals.
+ * Strings and ids become quoted, escaped string literals. Lists become comma
+ * separated literals, to be placed in a collection initializer such as
+ * new List<Id>{ {{accountIds}} } or in a SOQL IN clause.
+ *
+ * @param template anonymous Apex with placeholders
+ * @param variables value of each placeholder
+ * @returns anonymous Apex ready to execute
+ */
+export function renderApexTemplate(
+  template: string,
+  variables: ApexTemplateVariables
+): string {
+  return template.replace(PLACEHOLDER_REGEX, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      throw new Error(nls.localize('execAnonTemplateMissingVariable', name));
+    }
+    const value = variables[name];
+    if (Array.isArray(value)) {
+      return value.map((item) => toApexLiteral(name, item)).join(', ');
+    }
+    return toApexLiteral(name, value);
+  });
+}
@@ -6,8 +6,16 @@
  */
 import { Connection } from '@salesforce/core';
 import { existsSync, readFileSync } from 'fs';
+import { mkdir, readdir, writeFile } from 'node:fs/promises';
+import { createHash, randomUUID } from 'node:crypto';
+import * as path from 'path';
 import {
   action,
+  ApexBatchExecuteOptions,
+  ApexBatchExecuteResult,
+  ApexBatchScriptResult,
+  EXECUTE_BATCH_MANIFEST_FILE,
+  ExecutionHistoryEntry,
   ApexExecuteOptions,
   ExecuteAnonymousResponse,
   soapBody,
@@ -16,13 +24,39 @@ import {
   SoapResponse
 } from './types';
 import { nls } from '../i18n';
-import { refreshAuth } from '../utils';
-import { encodeBody } from './utils';
+import {
+  DEBUG_LEVEL_CATEGORIES,
+  DebugLevelCategories,
+  refreshAuth,
+  TraceFlags
+} from '../utils';
+import { LogService } from '../logs/logService';
+import { MILLISECONDS_PER_MINUTE } from '../utils/dateUtil';
+import { escapeSoqlString, toSoqlDateTime } from '../utils/soqlUtil';
+import {
+  encodeBody,
+  parseDebugOutput,
+  unwrapRollbackResponse,
+  wrapInRollback
+} from './utils';
+import { renderApexTemplate } from './apexTemplate';
+import { ExecutionHistory } from './executionHistory';
 import * as readline from 'readline';
 import type { HttpRequest } from '@jsforce/jsforce-node';
 import { elapsedTime } from '../utils/elapsedTime';
 import * as os from 'node:os';
 
+const EXECUTE_DEBUG_LEVEL_NAME = 'ApexNodeExecuteAnonymous';
+const EXECUTE_TRACE_FLAG_MINUTES = 5;
+// ApexLog Operation of the Tooling REST executeAnonymous resource
+const EXECUTE_LOG_OPERATION = 'executeAnonymous';
+const EXECUTE_DEFAULT_LOG_LEVELS: DebugLevelCategories = {
+  ...Object.fromEntries(
+    DEBUG_LEVEL_CATEGORIES.map((category) => [category, 'NONE'])
+  ),
+  ApexCode: 'DEBUG'
+};
+
 export class ExecuteService {
   public readonly connection: Connection;
 
@@ -34,14 +68,110 @@ export class ExecuteService {
   public async executeAnonymous(
     options: ApexExecuteOptions
   ): Promise<ExecuteAnonymousResponse> {
-    const data = await this.getApexCode(options);
+    const apexCode = await this.getApexCode(options);
+    if (!options.historyPath) {
+      return this.runAnonymous(apexCode, options);
+    }
+
+    const history = new ExecutionHistory(options.historyPath);
+    const timestamp = new Date();
+    let response: ExecuteAnonymousResponse;
+    try {
+      response = await this.runAnonymous(apexCode, options);
+    } catch (e) {
+      try {
+        await history.append(
+          this.createHistoryEntry(apexCode, options, timestamp, undefined, e)
+        );
+      } catch (historyError) {
+        // report the execution error rather than a failure to record it
+      }
+      throw e;
+    }
+
+    // the script already ran, so a journal error doesn't fail the execution
+    try {
+      await history.append(
+        this.createHistoryEntry(apexCode, options, timestamp, response)
+      );
+    } catch (e) {
+      response.historyError = e.message;
+    }
+    return response;
+  }
+
+  /**
+   * Runs the code of a history entry again, on the connection of this service
+   * @param entry entry of the execution history
+   * @param options execute options, the dry run mode of the entry by default
+   * @returns execute anonymous response
+   */
+  @elapsedTime()
+  public async replayHistoryEntry(
+    entry: ExecutionHistoryEntry,
+    options: Omit<
+      ApexExecuteOptions,
+      'apexFilePath' | 'apexCode' | 'userInput' | 'templateVariables'
+    > = {}
+  ): Promise<ExecuteAnonymousResponse> {
+    return this.executeAnonymous({
+      dryRun: entry.dryRun,
+      ...options,
+      apexCode: entry.apexCode
+    });
+  }
+
+  private createHistoryEntry(
+    apexCode: string,
+    options: ApexExecuteOptions,
+    timestamp: Date,
+    response?: ExecuteAnonymousResponse,
+    error?: Error
+  ): ExecutionHistoryEntry {
+    const diagnostic = response?.diagnostic?.[0];
+    return {
+      id: randomUUID(),
+      timestamp: timestamp.toISOString(),
+      username: this.connection.getUsername(),
+      apiVersion: this.connection.getApiVersion(),
+      apexCode,
+      dryRun: !!options.dryRun,
+      compiled: response?.compiled ?? false,
+      success: response?.success ?? false,
+      durationMilliseconds: Date.now() - timestamp.getTime(),
+      ...(diagnostic
+        ? {
+            diagnosticSummary: `Line ${diagnostic.lineNumber}, column ${
+              diagnostic.columnNumber
+            }: ${diagnostic.compileProblem || diagnostic.exceptionMessage}`
+          }
+        : {}),
+      ...(error ? { diagnosticSummary: error.message } : {})
+    };
+  }
+
+  private async runAnonymous(
+    apexCode: string,
+    options: ApexExecuteOptions
+  ): Promise<ExecuteAnonymousResponse> {
+    const wrapping = options.dryRun ? wrapInRollback(apexCode) : undefined;
+    const data = wrapping ? wrapping.apexCode : apexCode;
 
     let count = 0;
     while (count < 2) {
       try {
-        const request = this.buildExecRequest(data);
-        const result = await this.connectionRequest(request);
-        return this.jsonFormat(result);
+        let response: ExecuteAnonymousResponse;
+        if (options.executionMode === 'tooling') {
+          response = await this.executeWithTraceFlag(data, options.logLevels);
+        } else {
+          const request = this.buildExecRequest(data, options.logLevels);
+          const result = await this.connectionRequest(request);
+          response = this.jsonFormat(result);
+        }
+        if (response.logs) {
+          Object.assign(response, parseDebugOutput(response.logs));
+        }
+        return wrapping ? unwrapRollbackResponse(response, wrapping) : response;
       } catch (e) {
         if (
           e.name === 'ERROR_HTTP_500' &&
@@ -59,8 +189,95 @@ export class ExecuteService {
     throw new Error(nls.localize('authForAnonymousApexFailed'));
   }
 
+  /**
+   * Runs anonymous Apex scripts one after the other and writes a manifest with
+   * the hash, duration, outcome and log path of each script.
+   * @param options scripts to run, failure mode, output directory and execute options
+   * @returns outcome of each script and the manifest path
+   */
+  @elapsedTime()
+  public async executeBatch(
+    options: ApexBatchExecuteOptions
+  ): Promise<ApexBatchExecuteResult> {
+    const scriptPaths = [...(options.scriptPaths ?? [])];
+    if (options.scriptDir) {
+      const files = (await readdir(options.scriptDir))
+        .filter((file) => file.endsWith('.apex'))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+      scriptPaths.push(
+        ...files.map((file) => path.join(options.scriptDir, file))
+      );
+    }
+    if (!scriptPaths.length) {
+      throw new Error(nls.localize('execAnonBatchNoScripts'));
+    }
+    // read every script up front so that a missing file stops the batch before it starts
+    const scripts = scriptPaths.map((scriptPath) => ({
+      scriptPath,
+      apexCode: this.readApexFile(scriptPath)
+    }));
+    await mkdir(options.outputDir, { recursive: true });
+
+    const results: ApexBatchScriptResult[] = [];
+    let failed = false;
+    for (const [index, { scriptPath, apexCode }] of scripts.entries()) {
+      const result: ApexBatchScriptResult = {
+        scriptPath,
+        hash: createHash('sha256').update(apexCode).digest('hex'),
+        status: 'skipped'
+      };
+      results.push(result);
+      if (failed && !options.continueOnFailure) {
+        continue;
+      }
+
+      const startTime = Date.now();
+      try {
+        const response = await this.executeAnonymous({
+          ...options,
+          apexCode
+        });
+        result.compiled = response.compiled;
+        result.success = response.success;
+        if (response.diagnostic) {
+          result.diagnostic = response.diagnostic;
+        }
+        if (response.logs) {
+          result.logPath = path.join(
+            options.outputDir,
+            `${String(index + 1).padStart(2, '0')}-${path.basename(
+              scriptPath,
+              path.extname(scriptPath)
+            )}.log`
+          );
+          await writeFile(result.logPath, response.logs);
+        }
+      } catch (e) {
+        result.success = false;
+        result.error = e.message;
+      }
+      result.durationMilliseconds = Date.now() - startTime;
+      result.status = result.success ? 'succeeded' : 'failed';
+      failed = failed || !result.success;
+    }
+
+    const manifestPath = path.join(
+      options.outputDir,
+      EXECUTE_BATCH_MANIFEST_FILE
+    );
+    await writeFile(manifestPath, JSON.stringify(results, null, 2));
+    return { success: !failed, manifestPath, scripts: results };
+  }
+
   @elapsedTime()
   public async getApexCode(options: ApexExecuteOptions): Promise<string> {
+    const apexCode = await this.readApexCode(options);
+    return options.templateVariables
+      ? renderApexTemplate(apexCode, options.templateVariables)
+      : apexCode;
+  }
+
+  private async readApexCode(options: ApexExecuteOptions): Promise<string> {
     if (options.apexCode) {
       return String(options.apexCode);
     } else if (options.apexFilePath) {
@@ -110,10 +327,13 @@ export class ExecuteService {
     });
   }
 
-  // Tooling API execute anonymous apex REST endpoint was not used because
-  // it requires multiple api calls to turn on trace flag, execute anonymous apex, and get the generated debug log
-  private buildExecRequest(data: string): HttpRequest {
-    const body = encodeBody(this.connection.accessToken, data);
+  // The SOAP endpoint returns the debug log with the response, while the Tooling API execute anonymous apex
+  // REST endpoint requires multiple api calls to turn on trace flag, execute anonymous apex, and get the generated debug log
+  private buildExecRequest(
+    data: string,
+    logLevels?: DebugLevelCategories
+  ): HttpRequest {
+    const body = encodeBody(this.connection.accessToken, data, logLevels);
     const postEndpoint = `${this.connection.instanceUrl}/services/Soap/s/${
       this.connection.version
     }/${this.connection.accessToken.split('!')[0]}`;
@@ -129,6 +349,96 @@ export class ExecuteService {
     };
   }
 
+  @elapsedTime()
+  private async executeWithTraceFlag(
+    data: string,
+    logLevels?: DebugLevelCategories
+  ): Promise<ExecuteAnonymousResponse> {
+    const traceFlags = new TraceFlags(this.connection);
+    const tracedEntity = {
+      type: 'User' as const,
+      name: this.connection.getUsername()
+    };
+    const userId = await traceFlags.resolveTracedEntityId(tracedEntity);
+    const startDate = new Date();
+    const traceFlagId = await traceFlags.addTraceFlag({
+      tracedEntity,
+      tracedEntityId: userId,
+      logType: 'DEVELOPER_LOG',
+      startDate,
+      expirationDate: new Date(
+        startDate.getTime() +
+          EXECUTE_TRACE_FLAG_MINUTES * MILLISECONDS_PER_MINUTE
+      ),
+      debugLevel: {
+        developerName: EXECUTE_DEBUG_LEVEL_NAME,
+        // the debug level is shared by every execution, so every category is
+        // set to drop the levels of earlier executions
+        levels: { ...EXECUTE_DEFAULT_LOG_LEVELS, ...logLevels }
+      }
+    });
+
+    try {
+      const result = await this.connection.tooling.executeAnonymous(data);
+      const response: ExecuteAnonymousResponse = {
+        compiled: result.compiled,
+        success: result.success
+      };
+      if (!result.success) {
+        response.diagnostic = [
+          {
+            lineNumber: result.line,
+            columnNumber: result.column,
+            compileProblem: result.compileProblem ?? '',
+            exceptionMessage: result.exceptionMessage ?? '',
+            exceptionStackTrace: result.exceptionStackTrace ?? ''
+          }
+        ];
+      }
+
+      const logRecord = await this.findExecutionLog(userId, traceFlagId);
+      if (logRecord) {
+        response.logId = logRecord.Id;
+        response.logs = (
+          await new LogService(this.connection).getLogById(logRecord.Id)
+        ).log;
+      } else if (result.compiled) {
+        response.logError = nls.localize('execAnonLogNotFound');
+      }
+      return response;
+    } finally {
+      await traceFlags.deleteTraceFlag(traceFlagId);
+    }
+  }
+
+  /**
+   * The execution doesn't return its log id, so the log is the first anonymous
+   * execution of the user that started after the trace flag was created. Both
+   * timestamps come from the server clock.
+   */
+  private async findExecutionLog(
+    userId: string,
+    traceFlagId: string
+  ): Promise<{ Id: string } | undefined> {
+    const traceFlag = (
+      await this.connection.tooling.query<{ CreatedDate: string }>(
+        `SELECT CreatedDate FROM TraceFlag WHERE Id = '${escapeSoqlString(
+          traceFlagId
+        )}'`
+      )
+    ).records[0];
+    if (!traceFlag) {
+      return undefined;
+    }
+    const logQuery = `SELECT Id FROM ApexLog WHERE LogUserId = '${escapeSoqlString(
+      userId
+    )}' AND Operation LIKE '%${EXECUTE_LOG_OPERATION}%' AND StartTime >= ${toSoqlDateTime(
+      traceFlag.CreatedDate
+    )} ORDER BY StartTime ASC LIMIT 1`;
+    return (await this.connection.tooling.query<{ Id: string }>(logQuery))
+      .records[0];
+  }
+
   @elapsedTime()
   public jsonFormat(soapResponse: SoapResponse): ExecuteAnonymousResponse {
     const execAnonResponse =
@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import * as path from 'path';
+import { ExecutionHistoryEntry, ExecutionHistorySearch } from './types';
+
+/**
+ * Journal of anonymous Apex executions, stored as one JSON entry per line
+ */
+export class ExecutionHistory {
+  public readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async append(entry: ExecutionHistoryEntry): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * @returns every entry, most recent first
+   */
+  public async list(): Promise<ExecutionHistoryEntry[]> {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    const entries: ExecutionHistoryEntry[] = [];
+    for (const line of (await readFile(this.filePath, 'utf8')).split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as ExecutionHistoryEntry);
+      } catch (e) {
+        // skip lines left incomplete by an interrupted write
+      }
+    }
+    return entries.reverse();
+  }
+
+  /**
+   * @param search conditions the entries match
+   * @returns matching entries, most recent first
+   */
+  public async search(
+    search: ExecutionHistorySearch
+  ): Promise<ExecutionHistoryEntry[]> {
+    const text = search.text?.toLowerCase();
+    const matches = (await this.list()).filter((entry) => {
+      const time = new Date(entry.timestamp).getTime();
+      return (
+        (!text ||
+          entry.apexCode.toLowerCase().includes(text) ||
+          !!entry.diagnosticSummary?.toLowerCase().includes(text)) &&
+        (!search.username || entry.username === search.username) &&
+        (!search.since || time >= search.since.getTime()) &&
+        (!search.until || time < search.until.getTime()) &&
+        (search.success === undefined || entry.success === search.success)
+      );
+    });
+    return search.limit !== undefined
+      ? matches.slice(0, search.limit)
+      : matches;
+  }
+
+  /**
+   * @param id entry id
+   * @returns the entry, or undefined when there is none with this id
+   */
+  public async get(id: string): Promise<ExecutionHistoryEntry | undefined> {
+    return (await this.list()).find((entry) => entry.id === id);
+  }
+}
@@ -4,13 +4,162 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { ApexDiagnostic, CommonOptions } from '../utils';
+import { ApexDiagnostic, CommonOptions, DebugLevelCategories } from '../utils';
 
 export type ApexExecuteOptions = CommonOptions & {
   targetUsername?: string;
   apexFilePath?: string;
   apexCode?: string | Buffer;
   userInput?: boolean;
+  /**
+   * Values for the {{name}} placeholders of the Apex code
+   */
+  templateVariables?: ApexTemplateVariables;
+  /**
+   * Roll back all DML at the end of the script. The debug log and diagnostics
+   * are still returned. Scripts that make callouts cannot be rolled back.
+   */
+  dryRun?: boolean;
+  /**
+   * JSONL file the execution is appended to
+   */
+  historyPath?: string;
+  /**
+   * Log level per category. Categories left out keep the org's defaults, or
+   * are NONE in tooling mode, except ApexCode at DEBUG.
+   */
+  logLevels?: DebugLevelCategories;
+  /**
+   * soap (default) returns the log in the DebuggingHeader response. tooling sets
+   * a trace flag on the running user, executes through the Tooling REST API and
+   * downloads the generated ApexLog.
+   */
+  executionMode?: 'soap' | 'tooling';
+};
+
+export type ApexBatchExecuteOptions = Omit<
+  ApexExecuteOptions,
+  'apexFilePath' | 'apexCode' | 'userInput'
+> & {
+  /**
+   * Script files, run in this order
+   */
+  scriptPaths?: string[];
+  /**
+   * Directory whose .apex files are run in name order, after scriptPaths
+   */
+  scriptDir?: string;
+  /**
+   * Keep running the remaining scripts after one fails. Defaults to stopping.
+   */
+  continueOnFailure?: boolean;
+  /**
+   * Directory the logs and the manifest are written to
+   */
+  outputDir: string;
+};
+
+export type ApexBatchScriptResult = {
+  scriptPath: string;
+  /**
+   * SHA-256 of the script file content
+   */
+  hash: string;
+  /**
+   * Scripts after a failure are skipped unless continueOnFailure is set
+   */
+  status: 'succeeded' | 'failed' | 'skipped';
+  durationMilliseconds?: number;
+  compiled?: boolean;
+  success?: boolean;
+  diagnostic?: ApexDiagnostic[];
+  logPath?: string;
+  /**
+   * Set when the script could not be executed at all
+   */
+  error?: string;
+};
+
+export type ApexBatchExecuteResult = {
+  success: boolean;
+  /**
+   * Path of the JSON manifest of the batch
+   */
+  manifestPath: string;
+  scripts: ApexBatchScriptResult[];
+};
+
+export const EXECUTE_BATCH_MANIFEST_FILE = 'manifest.json';
+
+export type ApexReplOptions = Omit<
+  ApexExecuteOptions,
+  'apexFilePath' | 'apexCode' | 'userInput'
+> & {
+  /**
+   * Defaults to stdin
+   */
+  input?: NodeJS.ReadableStream;
+  /**
+   * Defaults to stdout
+   */
+  output?: NodeJS.WritableStream;
+  /**
+   * Line that ends a block of code and executes it. Defaults to /
+   */
+  delimiter?: string;
+  /**
+   * File the typed lines are kept in across sessions
+   */
+  commandHistoryPath?: string;
+};
+
+export type ExecutionHistoryEntry = {
+  id: string;
+  /**
+   * ISO 8601 time the execution started
+   */
+  timestamp: string;
+  username: string;
+  apiVersion: string;
+  /**
+   * Executed code, after templates are rendered
+   */
+  apexCode: string;
+  dryRun: boolean;
+  compiled: boolean;
+  success: boolean;
+  durationMilliseconds: number;
+  /**
+   * First compile problem or exception, or the error that stopped the execution
+   */
+  diagnosticSummary?: string;
+};
+
+export type ExecutionHistorySearch = {
+  /**
+   * Case-insensitive text the code or diagnostic summary contains
+   */
+  text?: string;
+  username?: string;
+  /**
+   * Only executions started at or after this time
+   */
+  since?: Date;
+  /**
+   * Only executions started before this time
+   */
+  until?: Date;
+  success?: boolean;
+  /**
+   * Maximum number of entries, most recent first
+   */
+  limit?: number;
+};
+
+export type ApexTemplateValue = string | number | boolean | null;
+
+export type ApexTemplateVariables = {
+  [name: string]: ApexTemplateValue | ApexTemplateValue[];
 };
 
 export const soapEnv = 'soapenv:Envelope';
@@ -31,10 +180,59 @@ interface DebuggingInfo {
   debugLog: string;
 }
 
-export type ExecuteAnonymousResponse = {
+/**
+ * Prefix of the System.debug line a script writes its JSON result to, e.g.
+ * System.debug('APEX_RESULT:' + JSON.serialize(accounts));
+ */
+export const EXECUTE_RESULT_PREFIX = 'APEX_RESULT:';
+
+export type RollbackWrapping = {
+  /**
+   * Anonymous Apex sent to the org
+   */
+  apexCode: string;
+  /**
+   * Line of the submitted code for each line sent, and the number of
+   * characters added before it
+   */
+  lineMap: { line: number; columnOffset: number }[];
+};
+
+export type UserDebugEntry = {
+  lineNumber?: number;
+  level: string;
+  message: string;
+};
+
+export type ExecuteAnonymousResponse<T = unknown> = {
   compiled: boolean;
   success: boolean;
   logs?: string;
+  /**
+   * USER_DEBUG output of the script, in log order
+   */
+  debugOutput?: UserDebugEntry[];
+  /**
+   * JSON payload of the last USER_DEBUG message starting with EXECUTE_RESULT_PREFIX
+   */
+  result?: T;
+  /**
+   * Id of the ApexLog, when executed through the Tooling REST API
+   */
+  logId?: string;
+  /**
+   * Set when the script ran in dry run mode and its DML was rolled back
+   */
+  dryRun?: boolean;
+  /**
+   * Error writing the execution to the history file, the script itself ran
+   */
+  historyError?: string;
+  /**
+   * Set when the debug log of a compiled script executed through the Tooling
+   * REST API could not be found
+   */
+  logError?: string;
   diagnostic?: ApexDiagnostic[];
 };
 
@@ -4,7 +4,44 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { action } from './types';
+import { DebugLevelCategories } from '../utils/types';
+import { flattenLogEvents, parseLog } from '../logs/logParser';
+import { stripCommentsAndStrings } from '../tests/testDiscovery';
+import {
+  action,
+  EXECUTE_RESULT_PREFIX,
+  ExecuteAnonymousResponse,
+  RollbackWrapping,
+  UserDebugEntry
+} from './types';
+
+// Kept on the first line of the script so that line numbers are unchanged
+const ROLLBACK_PREFIX =
+  'Savepoint apexNodeDryRunSavepoint = Database.setSavepoint(); try { ';
+// finally also rolls back when the script returns early
+const ROLLBACK_SUFFIX =
+  '\n} finally { Database.rollback(apexNodeDryRunSavepoint); }';
+const DECLARATION_MODIFIERS =
+  'public|private|protected|global|static|virtual|abstract|override|testmethod|webservice|with\\s+sharing|without\\s+sharing|inherited\\s+sharing';
+// e.g. static void helper(Id accountId) or public class MyException extends Exception
+const DECLARATION_HEADER_REGEX = new RegExp(
+  String.raw`^(?:@\w+(?:\s*\([^)]*\))?\s*)*(?:(?:${DECLARATION_MODIFIERS})\s+)*(?:(?:class|interface|enum)\s+\w+[\s\S]*|(?!(?:if|else|for|while|do|try|catch|finally|switch|when|return|new|throw)\b)\w[\w.<>\[\], ]*?\s+\w+\s*\([^)]*\))$`,
+  'i'
+);
+
+// DebuggingHeader LogCategory values, keyed by DebugLevel field
+const soapLogCategories: { [category: string]: string } = {
+  ApexCode: 'Apex_code',
+  ApexProfiling: 'Apex_profiling',
+  Callout: 'Callout',
+  Database: 'Db',
+  System: 'System',
+  Validation: 'Validation',
+  Visualforce: 'Visualforce',
+  Workflow: 'Workflow',
+  Wave: 'Wave',
+  Nba: 'Nba'
+};
 
 const xmlCharMap: { [key: string]: string } = {
   '<': '&lt;',
@@ -17,7 +54,26 @@ const xmlCharMap: { [key: string]: string } = {
 const escapeXml = (data: string): string =>
   data.replace(/[<>&'\"]/g, (char: string) => xmlCharMap[char]);
 
-export function encodeBody(accessToken: string, data: string): string {
+function encodeDebuggingHeader(logLevels?: DebugLevelCategories): string {
+  const categories = Object.entries(logLevels ?? {})
+    .filter(([category, level]) => soapLogCategories[category] && level)
+    .map(
+      ([category, level]) =>
+        `<apex:categories><apex:category>${
+          soapLogCategories[category]
+        }</apex:category><apex:level>${level.charAt(0)}${level
+          .substring(1)
+          .toLowerCase()}</apex:level></apex:categories>`
+    )
+    .join('');
+  return `<apex:DebuggingHeader>${categories}<apex:debugLevel>DEBUGONLY</apex:debugLevel></apex:DebuggingHeader>`;
+}
+
+export function encodeBody(
+  accessToken: string,
+  data: string,
+  logLevels?: DebugLevelCategories
+): string {
   const escapedData = escapeXml(data);
 
   return `<env:Envelope xmlns:xsd="http://www.w3.org/2001/XMLSchema"
@@ -28,7 +84,7 @@ xmlns:apex="http://soap.sforce.com/2006/08/apex">
         <cmd:SessionHeader>
             <cmd:sessionId>${accessToken}</cmd:sessionId>
         </cmd:SessionHeader>
-        <apex:DebuggingHeader><apex:debugLevel>DEBUGONLY</apex:debugLevel></apex:DebuggingHeader>
+        ${encodeDebuggingHeader(logLevels)}
     </env:Header>
     <env:Body>
         <${action} xmlns="http://soap.sforce.com/2006/08/apex">
@@ -37,3 +93,161 @@ xmlns:apex="http://soap.sforce.com/2006/08/apex">
     </env:Body>
 </env:Envelope>`;
 }
+
+/**
+ * Finds the methods and classes declared at the top level of anonymous Apex,
+ * which can't be declared inside a block
+ */
+function findTopLevelDeclarations(
+  apexCode: string
+): { start: number; end: number }[] {
+  const code = stripCommentsAndStrings(apexCode);
+  const declarations: { start: number; end: number }[] = [];
+  let depth = 0;
+  let parens = 0;
+  let statementStart = 0;
+  let declarationStart: number | undefined;
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (char === '(') {
+      parens++;
+    } else if (char === ')') {
+      parens--;
+    } else if (char === ';' && depth === 0 && parens === 0) {
+      statementStart = i + 1;
+    } else if (char === '{') {
+      const header = code.substring(statementStart, i);
+      if (depth === 0 && DECLARATION_HEADER_REGEX.test(header.trim())) {
+        declarationStart =
+          statementStart + header.length - header.trimStart().length;
+      }
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      if (declarationStart !== undefined) {
+        declarations.push({ start: declarationStart, end: i + 1 });
+        declarationStart = undefined;
+      }
+      statementStart = i + 1;
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Wraps anonymous Apex in a try block whose finally rolls back its DML, even
+ * when the script returns early or throws. Methods and classes declared at the
+ * top level are moved after the block, at their original column, and the
+ * other statements keep their line.
+ *
+ * @param data anonymous Apex
+ * @returns anonymous Apex ending with a rollback, and where its lines come from
+ */
+export function wrapInRollback(data: string): RollbackWrapping {
+  const declarations = findTopLevelDeclarations(data);
+  let statements = data;
+  for (const { start, end } of declarations) {
+    statements =
+      statements.substring(0, start) +
+      statements.substring(start, end).replace(/[^\n]/g, ' ') +
+      statements.substring(end);
+  }
+
+  const lineCount = data.split('\n').length;
+  const lineMap = Array.from({ length: lineCount }, (_, index) => ({
+    line: index + 1,
+    columnOffset: index === 0 ? ROLLBACK_PREFIX.length : 0
+  }));
+  // the closing finally block
+  lineMap.push({ line: lineCount, columnOffset: 0 });
+
+  let apexCode = `${ROLLBACK_PREFIX}${statements}${ROLLBACK_SUFFIX}`;
+  for (const { start, end } of declarations) {
+    const lineStart = data.lastIndexOf('\n', start - 1) + 1;
+    const firstLine = data.substring(0, start).split('\n').length;
+    const declaration = data.substring(start, end);
+    apexCode += `\n${' '.repeat(start - lineStart)}${declaration}`;
+    lineMap.push(
+      ...declaration.split('\n').map((_, index) => ({
+        line: firstLine + index,
+        columnOffset: 0
+      }))
+    );
+  }
+  return { apexCode, lineMap };
+}
+
+/**
+ * Maps the diagnostics and debug output lines of a script wrapped by
+ * wrapInRollback back to the submitted code, and marks the response as a dry
+ * run.
+ *
+ * @param response execute anonymous response of the wrapped script
+ * @param wrapping wrapping of the script that was sent
+ * @returns response for the submitted code
+ */
+export function unwrapRollbackResponse(
+  response: ExecuteAnonymousResponse,
+  wrapping: RollbackWrapping
+): ExecuteAnonymousResponse {
+  const unwrapped: ExecuteAnonymousResponse = { ...response, dryRun: true };
+  const mapping = (lineNumber: number | undefined) =>
+    wrapping.lineMap[Number(lineNumber) - 1];
+  if (response.diagnostic) {
+    unwrapped.diagnostic = response.diagnostic.map((diagnostic) => {
+      const line = mapping(diagnostic.lineNumber);
+      return line
+        ? {
+            ...diagnostic,
+            lineNumber: line.line,
+            columnNumber: Math.max(
+              Number(diagnostic.columnNumber) - line.columnOffset,
+              1
+            )
+          }
+        : diagnostic;
+    });
+  }
+  if (response.debugOutput) {
+    unwrapped.debugOutput = response.debugOutput.map((entry) =>
+      mapping(entry.lineNumber)
+        ? { ...entry, lineNumber: mapping(entry.lineNumber).line }
+        : entry
+    );
+  }
+  return unwrapped;
+}
+
+/**
+ * Reads the USER_DEBUG output of a debug log. The last message starting with
+ * EXECUTE_RESULT_PREFIX is parsed as the JSON result of the script and left
+ * out of the debug output. Fields without a value are left out.
+ *
+ * @param log debug log of the execution
+ * @returns debug output and result
+ */
+export function parseDebugOutput<T = unknown>(
+  log: string
+): Pick<ExecuteAnonymousResponse<T>, 'debugOutput' | 'result'> {
+  const debugOutput: UserDebugEntry[] = flattenLogEvents(parseLog(log).events)
+    .filter((event) => event.type === 'USER_DEBUG')
+    .map((event) => ({
+      lineNumber: event.lineNumber,
+      level: event.level,
+      message: event.message
+    }));
+
+  for (let i = debugOutput.length - 1; i >= 0; i--) {
+    if (debugOutput[i].message.startsWith(EXECUTE_RESULT_PREFIX)) {
+      try {
+        const result = JSON.parse(
+          debugOutput[i].message.substring(EXECUTE_RESULT_PREFIX.length)
+        ) as T;
+        debugOutput.splice(i, 1);
+        return debugOutput.length ? { debugOutput, result } : { result };
+      } catch (e) {
+        // not a result payload, keep it as debug output
+      }
+    }
+  }
+  return debugOutput.length ? { debugOutput } : {};
+}
@@ -22,6 +22,8 @@ export const messages = {
   missingInfoLogError:
     'To retrieve logs, specify the log ID or the number of logs.',
   numLogsError: 'Expected number of logs to be greater than 0.',
+  logDeleteBatchSizeError:
+    'Expected the batch size to be a whole number from 1 to %s.',
   optionExecAnonError: 'Please specify an option to execute anonymous Apex.',
   unexpectedExecAnonInputError: 'Unexpected error while reading user input. %s',
   coverageReportCreationError:
@@ -29,6 +31,29 @@ export const messages = {
   execAnonInputPrompt:
     'Start typing Apex code. Press the Enter key after each line, then press CTRL+D when finished.\n',
   execAnonInputTimeout: 'Timed out while waiting for user input.',
+  execAnonReplWelcome:
+    'Type Apex code, then a line with %s to execute it. Type :help for commands.\n',
+  execAnonReplHelp: `:load <file>              execute an Apex file
+:log                      show the debug log of the last execution
+:level [Category=LEVEL]   show or set the log level of a category, e.g. :level Database=FINEST
+:clear                    discard the block being typed
+:quit                     end the session
+`,
+  execAnonReplUnknownCommand: 'Unknown command %s. Type :help for commands.\n',
+  execAnonReplNoLog: 'No debug log yet.\n',
+  execAnonReplInvalidLevel:
+    'Invalid log level %s. Use Category=LEVEL, e.g. ApexCode=FINEST.\n',
+  execAnonReplDefaultLevels: 'Using the default log levels.\n',
+  execAnonReplSuccess: 'Executed successfully.\n',
+  execAnonReplCompileError: 'Compile error at line %s, column %s: %s\n',
+  execAnonReplRuntimeError: 'Error at line %s, column %s: %s\n',
+  execAnonBatchNoScripts: 'Specify the script files or the directory to run.',
+  execAnonTemplateMissingVariable:
+    'No value was given for the template variable %s.',
+  execAnonTemplateInvalidVariable:
+    'The value of the template variable %s cannot be written as an Apex literal.',
+  execAnonLogNotFound:
+    'No debug log was found for the execution, the script itself ran.',
   noTestResultSummary: 'No test results were found for test run %s',
   noTestQueueResults: 'No test results were found in the queue for test run %s',
   noAccessTokenFound:
@@ -79,6 +104,12 @@ export const messages = {
     'Synchronous test runs can include test methods from only one Apex class. Omit the --synchronous flag or include tests from only one class',
   resultFormatErr:
     'Specified result formats must be of type json, junit, or tap',
+  invalidRepeatIterationsErr:
+    'The number of iterations must be a whole number greater than 0, got %s',
+  mergeTestResultsEmptyErr: 'At least one test result is needed to merge',
+  noShardConnectionsErr: 'At least one connection is needed to run tests',
+  invalidTestResultFileErr:
+    'The file %s does not contain a test result written in the json format',
   invalidTestRunIdErr: `The test run id %s isn't in the correct format for "id." The ID is a 15- or 18-character string in the format "707xxxxxxxxxxxx"`,
   invalidsObjectErr: `You don't have permissions to access sObject of type %s. Ask your Salesforce admin to give you permissions to access Apex code and the Streaming API. \nError: %s`,
   payloadErr:
@@ -89,11 +120,33 @@ export const messages = {
   missingTestClassErr: 'Apex class %s does not exist in the org',
   testSuiteMsg: 'Apex test class %s already exists in Apex test suite %s',
   classSuiteMsg: `Added Apex class %s to your Apex test suite %s`,
+  classRemovedFromSuiteMsg: `Removed Apex class %s from your Apex test suite %s`,
+  classNotInSuiteMsg: 'Apex test class %s is not in Apex test suite %s',
+  suiteExistsErr: 'Apex test suite %s already exists',
+  testPatternsNoMatchErr: 'No test classes or methods match: %s',
+  invalidTestPatternErr: 'Invalid test pattern %s: %s',
+  missingSfdxProjectErr:
+    'No sfdx-project.json with package directories found in %s',
+  invalidTestSuiteFileErr:
+    'The file %s is not an Apex test suite metadata file (name.testSuite-meta.xml)',
   error_no_default_username:
     'No default org is set. Run "SFDX: Create a Default Scratch Org" or "SFDX: Authorize an Org" to set one.',
   trace_flags_unknown_user: 'Unknown user',
   trace_flags_failed_to_create_debug_level: 'Failed to create a debug level',
   trace_flags_failed_to_find_debug_level: 'Debug Level not found for %s',
+  trace_flags_unknown_entity: '%s %s was not found',
+  trace_flags_ambiguous_entity:
+    '%s %s matches more than one record. Qualify it with its namespace.',
+  trace_flags_invalid_window:
+    'The trace flag expiration date must be after its start date and at most 24 hours later',
+  trace_flags_failed_to_create_trace_flag: 'Failed to create a trace flag',
+  trace_flags_failed_to_update_debug_level: 'Failed to update debug level %s',
+  debug_levels_invalid_file: '%s is not a valid debug level definition file',
+  debug_levels_file_not_found: 'Debug level definition file %s not found',
+  debug_levels_invalid_level: 'Debug level %s has an invalid level for %s: %s',
+  concurrency_invalid_limit:
+    'Expected the concurrency limit to be a whole number greater than 0, got %s.',
+  soql_invalid_datetime: '%s is not a valid date',
   startHandshake: 'Attempting StreamingClient handshake',
   finishHandshake: 'Finished StreamingClient handshake',
   subscribeStarted: 'Subscribing to ApexLog events',
@@ -6,9 +6,61 @@
  */
 
 export { CancellationToken, CancellationTokenSource, Progress } from './common';
-export { ExecuteAnonymousResponse, ApexExecuteOptions } from './execute/types';
+export {
+  ExecuteAnonymousResponse,
+  ApexBatchExecuteOptions,
+  ApexBatchExecuteResult,
+  ApexBatchScriptResult,
+  ApexExecuteOptions,
+  ApexReplOptions,
+  EXECUTE_BATCH_MANIFEST_FILE,
+  ApexTemplateValue,
+  ApexTemplateVariables,
+  EXECUTE_RESULT_PREFIX,
+  ExecutionHistoryEntry,
+  ExecutionHistorySearch,
+  UserDebugEntry
+} from './execute/types';
+export { ExecutionHistory } from './execute/executionHistory';
+export { ApexRepl } from './execute/apexRepl';
+export {
+  renderApexTemplate,
+  toApexStringLiteral
+} from './execute/apexTemplate';
 export { ExecuteService } from './execute/executeService';
-export { LogService, ApexLogGetOptions, LogRecord, LogResult } from './logs';
+export {
+  LogService,
+  ApexLogDeleteOptions,
+  ApexLogExportOptions,
+  ApexLogFilter,
+  ApexLogGetOptions,
+  LimitThresholdViolation,
+  LimitUsage,
+  LogDeleteFailure,
+  LogDeleteResult,
+  LogEvent,
+  LogEventType,
+  LogExportEntry,
+  LogExportResult,
+  LogLimitUsage,
+  LogProfile,
+  LogRecord,
+  LogResult,
+  LogTailOptions,
+  MethodProfile,
+  NamespaceLimitUsage,
+  ParsedLog,
+  analyzeLimits,
+  filterLogLines,
+  flattenLogEvents,
+  getLimitsOverThreshold,
+  getLogLineEventType,
+  matchesLogRecord,
+  parseLog,
+  profileLog,
+  toCollapsedStacks,
+  toSpeedscope
+} from './logs';
 export {
   JUnitReporter,
   JUnitFormatTransformer,
@@ -35,17 +87,74 @@ export {
   ApexTestSetupData,
   AsyncTestArrayConfiguration,
   AsyncTestConfiguration,
+  AsyncTestRunOptions,
   CodeCoverageResult,
   OutputDirConfig,
   ResultFormat,
+  ShardedTestResult,
+  ShardedTestRunOptions,
+  ShardedTests,
+  StabilityReport,
   SyncTestConfiguration,
   TestItem,
   TestLevel,
+  TestComparisonEntry,
+  TestHistoryStore,
+  TestHistoryTrendPoint,
+  TestImpactChange,
+  TestImpactResult,
+  TestMethodStability,
+  TestPassRate,
+  TestRepeatConfiguration,
   TestResult,
   TestService,
+  TestRunHistoryRecord,
+  TestRunComparison,
+  TestRunComparisonOptions,
   TestRunIdResult,
+  TestShard,
+  TestSuiteDefinition,
+  TestSuiteSyncResult,
   writeResultFiles,
   writeAsyncResultsToFile,
-  PerClassCoverage
+  PerClassCoverage,
+  buildStabilityReport,
+  buildTestSuiteMetadata,
+  isTestPattern,
+  mergeTestResults,
+  parseApexTestClass,
+  partitionTestItems,
+  compareTestResults,
+  compareTestRuns,
+  CoverageDelta,
+  DiscoveredTestClass,
+  DiscoveredTestMethod,
+  discoverTestClasses,
+  discoverTestItems,
+  readTestResultFile,
+  readTestSuiteFile,
+  selectTests,
+  TEST_SUITE_FILE_SUFFIX,
+  writeTestSuiteFile
 } from './tests';
-export { ApexDiagnostic, Row, Table } from './utils';
+export {
+  ApexDiagnostic,
+  DEBUG_LEVEL_CATEGORIES,
+  DebugLevelApplyResult,
+  DebugLevelCategories,
+  DebugLevelChange,
+  DebugLevelDefinition,
+  DebugLevelDiff,
+  diffDebugLevels,
+  LOG_CATEGORY_LEVELS,
+  loadDebugLevelDefinitions,
+  LogCategoryLevel,
+  Row,
+  Table,
+  TracedEntity,
+  TraceFlagInfo,
+  TraceFlagListOptions,
+  TraceFlagLogType,
+  TraceFlagOptions,
+  TraceFlags
+} from './utils';
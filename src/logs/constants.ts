@@ -11,3 +11,6 @@ export const MAX_NUM_LOGS = 25;
 export const LOG_TIMER_LENGTH_MINUTES = 30;
 export const LISTENER_ABORTED_ERROR_NAME = 'streamListenerAborted';
 export const STREAMING_LOG_TOPIC = '/systemTopic/Logging';
+export const DEFAULT_LOG_EXPORT_CONCURRENCY = 5;
+export const LOG_EXPORT_MANIFEST_FILE = 'manifest.json';
+export const MAX_LOG_DELETE_BATCH_SIZE = 200;
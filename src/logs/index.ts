@@ -6,9 +6,36 @@
  */
 
 export { LogService } from './logService';
-export { ApexLogGetOptions, LogRecord, LogResult } from './types';
+export { flattenLogEvents, getLogLineEventType, parseLog } from './logParser';
+export { filterLogLines, matchesLogRecord } from './logFilter';
+export { analyzeLimits, getLimitsOverThreshold } from './limitsAnalyzer';
+export { profileLog, toCollapsedStacks, toSpeedscope } from './logProfiler';
+export {
+  ApexLogDeleteOptions,
+  ApexLogExportOptions,
+  ApexLogFilter,
+  ApexLogGetOptions,
+  LimitThresholdViolation,
+  LimitUsage,
+  LogDeleteFailure,
+  LogDeleteResult,
+  LogExportEntry,
+  LogExportResult,
+  LogEvent,
+  LogEventType,
+  LogLimitUsage,
+  LogProfile,
+  LogRecord,
+  LogResult,
+  LogTailOptions,
+  MethodProfile,
+  NamespaceLimitUsage,
+  ParsedLog
+} from './types';
 export {
   DEFAULT_DEBUG_LEVEL_NAME,
+  DEFAULT_LOG_EXPORT_CONCURRENCY,
   LOG_TYPE,
+  LOG_EXPORT_MANIFEST_FILE,
   LOG_TIMER_LENGTH_MINUTES
 } from './constants';
@@ -0,0 +1,96 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { flattenLogEvents, parseLog } from './logParser';
+import {
+  LimitThresholdViolation,
+  LimitUsage,
+  NamespaceLimitUsage,
+  ParsedLog
+} from './types';
+
+// e.g. "  Number of SOQL queries: 95 out of 100 ******* CLOSE TO LIMIT"
+const LIMIT_LINE_REGEX = /^\s*(.+?):\s*(\d+)\s+out of\s+(\d+)/;
+
+type LimitKey = Exclude<keyof NamespaceLimitUsage, 'namespace' | 'limits'>;
+
+const LIMIT_LABELS: { [label: string]: LimitKey } = {
+  'Number of SOQL queries': 'soqlQueries',
+  'Number of query rows': 'queryRows',
+  'Number of DML statements': 'dmlStatements',
+  'Number of DML rows': 'dmlRows',
+  'Maximum CPU time': 'cpuTime',
+  'Maximum heap size': 'heapSize',
+  'Number of callouts': 'callouts'
+};
+
+/**
+ * Reads the governor limit usage per namespace from the LIMIT_USAGE_FOR_NS
+ * blocks of a debug log. The blocks are cumulative, so when a log holds more
+ * than one, the highest consumption of each limit is reported.
+ *
+ * @param log debug log body or an already parsed log
+ * @returns limit usage per namespace, in the order the namespaces appear
+ */
+export function analyzeLimits(log: string | ParsedLog): NamespaceLimitUsage[] {
+  const parsed = typeof log === 'string' ? parseLog(log) : log;
+  const usageByNamespace = new Map<string, NamespaceLimitUsage>();
+
+  for (const event of flattenLogEvents(parsed.events)) {
+    if (event.type !== 'LIMIT_USAGE_FOR_NS') {
+      continue;
+    }
+    // LIMIT_USAGE_FOR_NS|(default)| followed by one line per limit
+    const namespace = event.fields[0] || '(default)';
+    let usage = usageByNamespace.get(namespace);
+    if (!usage) {
+      usage = { namespace, limits: {} };
+      usageByNamespace.set(namespace, usage);
+    }
+
+    for (const line of event.text.split('\n').slice(1)) {
+      const match = LIMIT_LINE_REGEX.exec(line);
+      if (!match) {
+        continue;
+      }
+      const [, label, used, max] = match;
+      const current = usage.limits[label];
+      const limit: LimitUsage = {
+        used: Math.max(Number(used), current?.used ?? 0),
+        max: Number(max)
+      };
+      usage.limits[label] = limit;
+      if (LIMIT_LABELS[label]) {
+        usage[LIMIT_LABELS[label]] = limit;
+      }
+    }
+  }
+
+  return Array.from(usageByNamespace.values());
+}
+
+/**
+ * Lists the limits whose consumption reached the given share of the maximum.
+ *
+ * @param usage limit usage per namespace
+ * @param threshold percentage of the limit, from 0 to 100
+ * @returns limits at or above the threshold
+ */
+export function getLimitsOverThreshold(
+  usage: NamespaceLimitUsage[],
+  threshold = 80
+): LimitThresholdViolation[] {
+  const violations: LimitThresholdViolation[] = [];
+  for (const { namespace, limits } of usage) {
+    for (const [name, { used, max }] of Object.entries(limits)) {
+      const percentage = max > 0 ? (used / max) * 100 : 0;
+      if (max > 0 && percentage >= threshold) {
+        violations.push({ namespace, name, used, max, percentage });
+      }
+    }
+  }
+  return violations;
+}
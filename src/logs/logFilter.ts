@@ -0,0 +1,83 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { getLogLineEventType } from './logParser';
+import { LogRecord, LogTailOptions } from './types';
+
+const matchesAny = (value: string, accepted?: string[]): boolean =>
+  !accepted?.length ||
+  accepted.some((a) => a.toLowerCase() === value?.toLowerCase());
+
+/**
+ * @param options tail options
+ * @returns whether the options filter on log metadata, which requires the ApexLog record
+ */
+export function hasRecordFilter(options: LogTailOptions = {}): boolean {
+  return (
+    !!options.logUsers?.length ||
+    !!options.operations?.length ||
+    !!options.requests?.length ||
+    !!options.statuses?.length ||
+    typeof options.minDurationMilliseconds === 'number'
+  );
+}
+
+/**
+ * Checks the metadata of a log against the user, operation, request, status
+ * and duration filters. Text comparisons ignore case.
+ *
+ * @param record ApexLog record
+ * @param options tail options
+ * @returns whether the log should be kept
+ */
+export function matchesLogRecord(
+  record: LogRecord,
+  options: LogTailOptions = {}
+): boolean {
+  return (
+    matchesAny(record.LogUser?.Name, options.logUsers) &&
+    matchesAny(record.Operation, options.operations) &&
+    matchesAny(record.Request, options.requests) &&
+    matchesAny(record.Status, options.statuses) &&
+    (typeof options.minDurationMilliseconds !== 'number' ||
+      record.DurationMilliseconds >= options.minDurationMilliseconds)
+  );
+}
+
+/**
+ * Keeps the lines of a log that belong to the requested event types and match
+ * the line pattern. Continuation lines follow the event they belong to.
+ *
+ * @param log debug log body
+ * @param options tail options
+ * @returns filtered log, or undefined when no line is left
+ */
+export function filterLogLines(
+  log: string,
+  options: LogTailOptions = {}
+): string | undefined {
+  const { eventTypes, linePattern } = options;
+  if (!eventTypes?.length && linePattern === undefined) {
+    return log;
+  }
+
+  // global and sticky regexes would keep their lastIndex between lines
+  const pattern =
+    typeof linePattern === 'string'
+      ? new RegExp(linePattern)
+      : linePattern &&
+        new RegExp(linePattern.source, linePattern.flags.replace(/[gy]/g, ''));
+  let inAcceptedEvent = false;
+  const lines = log.split(/\r?\n/).filter((line) => {
+    const eventType = getLogLineEventType(line);
+    if (eventType !== undefined || !eventTypes?.length) {
+      inAcceptedEvent = !eventTypes?.length || eventTypes.includes(eventType);
+    }
+    return inAcceptedEvent && (!pattern || pattern.test(line));
+  });
+
+  return lines.length ? lines.join('\n') : undefined;
+}
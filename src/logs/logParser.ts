@@ -0,0 +1,220 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { LogEvent, ParsedLog } from './types';
+
+// e.g. 12:01:02.3 (4567890)|METHOD_ENTRY|[1]|01p000000000001|MyClass.myMethod()
+const EVENT_LINE_REGEX =
+  /^(\d{1,2}:\d{2}:\d{2}\.\d+) \((\d+)\)\|([A-Z_]+)(?:\|(.*))?$/;
+// e.g. 60.0 APEX_CODE,FINEST;APEX_PROFILING,INFO;CALLOUT,INFO
+const HEADER_LINE_REGEX = /^(\d+\.\d+) ([A-Z_]+,[A-Z]+(?:;[A-Z_]+,[A-Z]+)*)$/;
+const LINE_NUMBER_REGEX = /^\[(\d+|EXTERNAL)\]$/;
+
+/**
+ * Event types that open a block, mapped to the event type that closes it
+ */
+export const LOG_EVENT_PAIRS: { [type: string]: string } = {
+  EXECUTION_STARTED: 'EXECUTION_FINISHED',
+  CODE_UNIT_STARTED: 'CODE_UNIT_FINISHED',
+  METHOD_ENTRY: 'METHOD_EXIT',
+  CONSTRUCTOR_ENTRY: 'CONSTRUCTOR_EXIT',
+  SYSTEM_METHOD_ENTRY: 'SYSTEM_METHOD_EXIT',
+  SOQL_EXECUTE_BEGIN: 'SOQL_EXECUTE_END',
+  DML_BEGIN: 'DML_END',
+  CUMULATIVE_LIMIT_USAGE: 'CUMULATIVE_LIMIT_USAGE_END'
+};
+
+const CLOSING_EVENT_TYPES = new Set(Object.values(LOG_EVENT_PAIRS));
+
+/**
+ * Returns the event type of a debug log line, or undefined when the line
+ * continues the previous event.
+ *
+ * @param line debug log line
+ * @returns event type
+ */
+export function getLogLineEventType(line: string): string | undefined {
+  return EVENT_LINE_REGEX.exec(line)?.[3];
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  const num = Number(value);
+  return value !== undefined && value !== '' && !isNaN(num) ? num : undefined;
+}
+
+// Reads values written as Key:Value, e.g. Rows:3 or Op:Insert
+function namedField(fields: string[], key: string): string | undefined {
+  const field = fields.find((f) => f.startsWith(`${key}:`));
+  return field?.substring(key.length + 1);
+}
+
+function createEvent(
+  time: string,
+  timestamp: string,
+  type: string,
+  rest: string | undefined
+): LogEvent {
+  const fields = rest !== undefined ? rest.split('|') : [];
+  const event: LogEvent = {
+    type,
+    time,
+    timestamp: Number(timestamp),
+    fields,
+    text: '',
+    children: []
+  };
+
+  const lineNumberMatch = fields.length
+    ? LINE_NUMBER_REGEX.exec(fields[0])
+    : null;
+  if (lineNumberMatch) {
+    fields.shift();
+    event.lineNumber = toNumber(lineNumberMatch[1]);
+  }
+  event.text = fields.join('|');
+  return event;
+}
+
+function addContinuationLine(event: LogEvent, line: string): void {
+  event.text = `${event.text}\n${line}`;
+}
+
+function populateDetails(event: LogEvent): void {
+  const { fields } = event;
+  switch (event.type) {
+    case 'CODE_UNIT_STARTED':
+    case 'METHOD_ENTRY':
+    case 'SYSTEM_METHOD_ENTRY':
+    case 'CONSTRUCTOR_ENTRY':
+      event.name = fields[fields.length - 1];
+      break;
+    case 'SOQL_EXECUTE_BEGIN':
+      // SOQL_EXECUTE_BEGIN|[5]|Aggregations:0|SELECT Id FROM Account
+      event.name = event.text.substring(event.text.indexOf('|') + 1);
+      break;
+    case 'DML_BEGIN':
+      // DML_BEGIN|[10]|Op:Insert|Type:Account|Rows:1
+      event.name = namedField(fields, 'Op');
+      event.sObjectType = namedField(fields, 'Type');
+      event.rows = toNumber(namedField(fields, 'Rows'));
+      break;
+    case 'USER_DEBUG': {
+      // USER_DEBUG|[1]|DEBUG|message, which may span several lines
+      const separator = event.text.indexOf('|');
+      event.level = fields[0];
+      event.message = separator >= 0 ? event.text.substring(separator + 1) : '';
+      break;
+    }
+    case 'EXCEPTION_THROWN':
+    case 'FATAL_ERROR':
+      event.message = event.text;
+      break;
+    case 'LIMIT_USAGE':
+      // LIMIT_USAGE|[12]|SOQL|3|100
+      event.limitUsage = {
+        name: fields[0],
+        used: toNumber(fields[1]) ?? 0,
+        max: toNumber(fields[2]) ?? 0
+      };
+      break;
+  }
+}
+
+function closeEvent(event: LogEvent, exit: LogEvent): void {
+  event.exitTimestamp = exit.timestamp;
+  event.duration = exit.timestamp - event.timestamp;
+  if (event.type === 'SOQL_EXECUTE_BEGIN') {
+    event.rows = toNumber(namedField(exit.fields, 'Rows'));
+  }
+}
+
+/**
+ * Parses the body of an ApexLog into a tree of events. Events that open a
+ * block (code units, methods, SOQL, DML, ...) contain the events logged before
+ * their matching exit event as children. Lines that do not start a new event
+ * are appended to the text of the previous event.
+ *
+ * @param log debug log body
+ * @returns structured log
+ */
+export function parseLog(log: string): ParsedLog {
+  const parsed: ParsedLog = { logLevels: {}, events: [] };
+  const stack: LogEvent[] = [];
+  let current: LogEvent | undefined;
+
+  const finishCurrent = (): void => {
+    if (!current) {
+      return;
+    }
+    const event = current;
+    current = undefined;
+    populateDetails(event);
+
+    if (CLOSING_EVENT_TYPES.has(event.type)) {
+      const openIndex = stack
+        .map((e) => LOG_EVENT_PAIRS[e.type])
+        .lastIndexOf(event.type);
+      if (openIndex >= 0) {
+        // blocks left open inside the closed one were truncated in the log
+        closeEvent(stack[openIndex], event);
+        stack.length = openIndex;
+        return;
+      }
+    }
+
+    const siblings = stack.length
+      ? stack[stack.length - 1].children
+      : parsed.events;
+    siblings.push(event);
+    if (LOG_EVENT_PAIRS[event.type]) {
+      stack.push(event);
+    }
+  };
+
+  for (const line of log.trimEnd().split(/\r?\n/)) {
+    const match = EVENT_LINE_REGEX.exec(line);
+    if (match) {
+      finishCurrent();
+      current = createEvent(match[1], match[2], match[3], match[4]);
+      continue;
+    }
+
+    if (current) {
+      addContinuationLine(current, line);
+      continue;
+    }
+
+    const header = HEADER_LINE_REGEX.exec(line);
+    if (header && parsed.apiVersion === undefined) {
+      parsed.apiVersion = header[1];
+      for (const setting of header[2].split(';')) {
+        const [category, level] = setting.split(',');
+        parsed.logLevels[category] = level;
+      }
+    }
+  }
+  finishCurrent();
+
+  return parsed;
+}
+
+/**
+ * Walks the event tree depth first and returns every event in log order.
+ *
+ * @param events event tree
+ * @returns flattened list of events
+ */
+export function flattenLogEvents(events: LogEvent[]): LogEvent[] {
+  const flattened: LogEvent[] = [];
+  const visit = (list: LogEvent[]): void => {
+    for (const event of list) {
+      flattened.push(event);
+      visit(event.children);
+    }
+  };
+  visit(events);
+  return flattened;
+}
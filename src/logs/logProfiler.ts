@@ -0,0 +1,180 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { parseLog } from './logParser';
+import { LogEvent, LogProfile, MethodProfile, ParsedLog } from './types';
+
+const SPEEDSCOPE_SCHEMA = 'https://www.speedscope.app/file-format-schema.json';
+const FRAME_EVENT_TYPES = [
+  'CODE_UNIT_STARTED',
+  'METHOD_ENTRY',
+  'CONSTRUCTOR_ENTRY'
+];
+
+/**
+ * A timed block of the call tree: a code unit, method or constructor
+ */
+type Frame = {
+  name: string;
+  start: number;
+  end: number;
+  children: Frame[];
+};
+
+// Blocks that are never closed in a (truncated) log end with their last nested event
+function lastTimestamp(event: LogEvent): number {
+  if (event.exitTimestamp !== undefined) {
+    return event.exitTimestamp;
+  }
+  return event.children.reduce(
+    (latest, child) => Math.max(latest, lastTimestamp(child)),
+    event.timestamp
+  );
+}
+
+function buildFrames(events: LogEvent[]): Frame[] {
+  const frames: Frame[] = [];
+  for (const event of events) {
+    const children = buildFrames(event.children);
+    if (FRAME_EVENT_TYPES.includes(event.type)) {
+      frames.push({
+        name: event.name ?? event.type,
+        start: event.timestamp,
+        end: lastTimestamp(event),
+        children
+      });
+    } else {
+      // SOQL, DML and other blocks are part of the enclosing frame's self time
+      frames.push(...children);
+    }
+  }
+  return frames;
+}
+
+function selfTime(frame: Frame): number {
+  const childTime = frame.children.reduce(
+    (total, child) => total + (child.end - child.start),
+    0
+  );
+  return Math.max(frame.end - frame.start - childTime, 0);
+}
+
+function getFrames(log: string | ParsedLog): Frame[] {
+  const parsed = typeof log === 'string' ? parseLog(log) : log;
+  return buildFrames(parsed.events);
+}
+
+/**
+ * Aggregates the time spent in each code unit, method and constructor of a
+ * debug log. Times are in nanoseconds. The total time of a recursive method
+ * only counts its outermost call.
+ *
+ * @param log debug log body or an already parsed log
+ * @returns profile with methods sorted by self time, highest first
+ */
+export function profileLog(log: string | ParsedLog): LogProfile {
+  const frames = getFrames(log);
+  const methods = new Map<string, MethodProfile>();
+
+  const visit = (frame: Frame, stack: string[]): void => {
+    let method = methods.get(frame.name);
+    if (!method) {
+      method = { name: frame.name, calls: 0, totalTime: 0, selfTime: 0 };
+      methods.set(frame.name, method);
+    }
+    method.calls++;
+    method.selfTime += selfTime(frame);
+    if (!stack.includes(frame.name)) {
+      method.totalTime += frame.end - frame.start;
+    }
+    frame.children.forEach((child) => visit(child, [...stack, frame.name]));
+  };
+  frames.forEach((frame) => visit(frame, []));
+
+  return {
+    totalTime: frames.reduce(
+      (total, frame) => total + (frame.end - frame.start),
+      0
+    ),
+    methods: Array.from(methods.values()).sort(
+      (a, b) => b.selfTime - a.selfTime
+    )
+  };
+}
+
+/**
+ * Converts a debug log to an evented profile in the speedscope file format.
+ *
+ * @param log debug log body or an already parsed log
+ * @param name name of the profile
+ * @returns speedscope document, ready to be serialized as JSON
+ */
+export function toSpeedscope(
+  log: string | ParsedLog,
+  name = 'Apex debug log'
+): object {
+  const frames = getFrames(log);
+  const frameNames: string[] = [];
+  const frameIndexes = new Map<string, number>();
+  const events: { type: 'O' | 'C'; frame: number; at: number }[] = [];
+
+  const frameIndex = (frameName: string): number => {
+    if (!frameIndexes.has(frameName)) {
+      frameIndexes.set(frameName, frameNames.length);
+      frameNames.push(frameName);
+    }
+    return frameIndexes.get(frameName);
+  };
+  const visit = (frame: Frame): void => {
+    const index = frameIndex(frame.name);
+    events.push({ type: 'O', frame: index, at: frame.start });
+    frame.children.forEach(visit);
+    events.push({ type: 'C', frame: index, at: frame.end });
+  };
+  frames.forEach(visit);
+
+  return {
+    $schema: SPEEDSCOPE_SCHEMA,
+    name,
+    exporter: '@salesforce/apex-node',
+    shared: { frames: frameNames.map((frameName) => ({ name: frameName })) },
+    profiles: [
+      {
+        type: 'evented',
+        name,
+        unit: 'nanoseconds',
+        startValue: frames.length ? frames[0].start : 0,
+        endValue: frames.length ? frames[frames.length - 1].end : 0,
+        events
+      }
+    ]
+  };
+}
+
+/**
+ * Converts a debug log to collapsed stacks, one line per call path followed
+ * by its self time in nanoseconds, as consumed by flamegraph tooling.
+ *
+ * @param log debug log body or an already parsed log
+ * @returns collapsed stacks text
+ */
+export function toCollapsedStacks(log: string | ParsedLog): string {
+  const stackTimes = new Map<string, number>();
+
+  const visit = (frame: Frame, parentStack?: string): void => {
+    // ';' separates the frames of a stack
+    const frameName = frame.name.replace(/;/g, ',');
+    const stack = parentStack ? `${parentStack};${frameName}` : frameName;
+    stackTimes.set(stack, (stackTimes.get(stack) ?? 0) + selfTime(frame));
+    frame.children.forEach((child) => visit(child, stack));
+  };
+  getFrames(log).forEach((frame) => visit(frame));
+
+  return Array.from(stackTimes.entries())
+    .filter(([, time]) => time > 0)
+    .map(([stack, time]) => `${stack} ${time}`)
+    .join('\n');
+}
@@ -14,15 +14,43 @@ import {
 import { Duration } from '@salesforce/kit';
 import type { AnyJson } from '@salesforce/ts-types';
 import {
+  DEFAULT_LOG_EXPORT_CONCURRENCY,
   LISTENER_ABORTED_ERROR_NAME,
+  LOG_EXPORT_MANIFEST_FILE,
   LOG_TIMER_LENGTH_MINUTES,
+  MAX_LOG_DELETE_BATCH_SIZE,
   MAX_NUM_LOGS,
   STREAMING_LOG_TOPIC
 } from './constants';
-import { ApexLogGetOptions, LogRecord, LogResult } from './types';
+import {
+  ApexLogDeleteOptions,
+  ApexLogExportOptions,
+  ApexLogFilter,
+  ApexLogGetOptions,
+  LogDeleteResult,
+  LogExportEntry,
+  LogExportResult,
+  LogRecord,
+  LogResult,
+  LogTailOptions,
+  ParsedLog
+} from './types';
+import { filterLogLines, hasRecordFilter, matchesLogRecord } from './logFilter';
+import { parseLog } from './logParser';
+import { profileLog, toCollapsedStacks, toSpeedscope } from './logProfiler';
 import * as path from 'path';
+import { existsSync, createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, writeFile } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import { nls } from '../i18n';
-import { createFile } from '../utils';
+import {
+  createFile,
+  escapeSoqlString,
+  mapWithConcurrency,
+  toSoqlDateTime,
+  toSoqlList
+} from '../utils';
 import { TraceFlags } from '../utils/traceFlags';
 import { elapsedTime } from '../utils/elapsedTime';
 
@@ -35,6 +63,7 @@ export class LogService {
   public readonly connection: Connection;
   private logger: Logger;
   private logTailer?: (log: string) => void;
+  private tailOptions?: LogTailOptions;
 
   constructor(connection: Connection) {
     this.connection = connection;
@@ -69,17 +98,46 @@ export class LogService {
         }))
       )
     ).map(({ log, logId }) => {
+      const logResult: LogResult = { log };
       if (options.outputDir) {
         const logPath = path.join(options.outputDir, `${logId}.log`);
         createFile(logPath, log);
-        return { log, logPath };
+        logResult.logPath = logPath;
       }
-      return { log };
+      if (options.parse || options.profile) {
+        const parsed = parseLog(log);
+        if (options.parse) {
+          logResult.parsed = parsed;
+        }
+        if (options.profile) {
+          logResult.profile = profileLog(parsed);
+          if (options.outputDir) {
+            logResult.profilePaths = this.writeProfiles(
+              options.outputDir,
+              logId,
+              parsed
+            );
+          }
+        }
+      }
+      return logResult;
     });
 
     return logs;
   }
 
+  private writeProfiles(
+    outputDir: string,
+    logId: string,
+    parsed: ParsedLog
+  ): string[] {
+    const speedscopePath = path.join(outputDir, `${logId}.speedscope.json`);
+    createFile(speedscopePath, JSON.stringify(toSpeedscope(parsed, logId)));
+    const collapsedPath = path.join(outputDir, `${logId}.collapsed.txt`);
+    createFile(collapsedPath, toCollapsedStacks(parsed));
+    return [speedscopePath, collapsedPath];
+  }
+
   @elapsedTime()
   public async getLogById(logId: string): Promise<LogResult> {
     const baseUrl = this.connection.tooling._baseUrl();
@@ -109,10 +167,207 @@ export class LogService {
       .records;
   }
 
+  /**
+   * Queries every ApexLog record matching the filter, oldest first
+   * @param filter start time, user and operation filters
+   * @returns matching log records
+   */
+  @elapsedTime()
+  public async queryLogRecords(filter: ApexLogFilter): Promise<LogRecord[]> {
+    const conditions: string[] = [];
+    if (filter.startTime) {
+      conditions.push(`StartTime >= ${toSoqlDateTime(filter.startTime)}`);
+    }
+    if (filter.endTime) {
+      conditions.push(`StartTime < ${toSoqlDateTime(filter.endTime)}`);
+    }
+    if (filter.logUsers?.length) {
+      conditions.push(`LogUser.Name IN ${toSoqlList(filter.logUsers)}`);
+    }
+    if (filter.operations?.length) {
+      conditions.push(`Operation IN ${toSoqlList(filter.operations)}`);
+    }
+    const apexLogQuery = `SELECT Id, Application, DurationMilliseconds, Location, LogLength, LogUser.Name, Operation, Request, StartTime, Status FROM ApexLog${
+      conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''
+    } ORDER BY StartTime ASC`;
+
+    let result = await this.connection.tooling.query<LogRecord>(apexLogQuery);
+    const records = [...result.records];
+    while (!result.done && result.nextRecordsUrl) {
+      result = await this.connection.tooling.queryMore<LogRecord>(
+        result.nextRecordsUrl
+      );
+      records.push(...result.records);
+    }
+    return records;
+  }
+
+  /**
+   * Downloads every log matching the filter into the output directory, skipping
+   * logs that were downloaded before, and writes a JSON manifest of the export.
+   * @param options log filter, output directory and concurrency
+   * @returns the manifest path and the outcome for each log
+   */
   @elapsedTime()
-  public async tail(org: Org, tailer?: (log: string) => void): Promise<void> {
+  public async exportLogs(
+    options: ApexLogExportOptions
+  ): Promise<LogExportResult> {
+    const records = await this.queryLogRecords(options);
+    await mkdir(options.outputDir, { recursive: true });
+
+    const logs = await mapWithConcurrency(
+      records,
+      options.concurrency ?? DEFAULT_LOG_EXPORT_CONCURRENCY,
+      async (record): Promise<LogExportEntry> => {
+        const logPath = path.join(options.outputDir, `${record.Id}.log`);
+        const entry: LogExportEntry = {
+          logId: record.Id,
+          logPath,
+          startTime: record.StartTime,
+          logUser: record.LogUser?.Name,
+          operation: record.Operation,
+          logLength: record.LogLength,
+          status: 'downloaded'
+        };
+        if (existsSync(logPath)) {
+          return { ...entry, status: 'skipped' };
+        }
+        try {
+          await this.downloadLog(record.Id, logPath);
+          return entry;
+        } catch (e) {
+          return { ...entry, status: 'failed', error: e.message };
+        }
+      }
+    );
+
+    const manifestPath = path.join(options.outputDir, LOG_EXPORT_MANIFEST_FILE);
+    await writeFile(manifestPath, JSON.stringify(logs, null, 2));
+    return { manifestPath, logs };
+  }
+
+  /**
+   * Deletes the logs matching the filter in batches. Logs that could not be
+   * deleted are reported as failures instead of stopping the cleanup.
+   * @param options log filter, age, dry run and batch size
+   * @returns matched, deleted and failed logs with their total length
+   */
+  @elapsedTime()
+  public async deleteLogs(
+    options: ApexLogDeleteOptions
+  ): Promise<LogDeleteResult> {
+    const batchSize = options.batchSize ?? MAX_LOG_DELETE_BATCH_SIZE;
+    if (
+      !Number.isInteger(batchSize) ||
+      batchSize < 1 ||
+      batchSize > MAX_LOG_DELETE_BATCH_SIZE
+    ) {
+      throw new Error(
+        nls.localize(
+          'logDeleteBatchSizeError',
+          String(MAX_LOG_DELETE_BATCH_SIZE)
+        )
+      );
+    }
+    const filter = options.olderThan
+      ? {
+          ...options,
+          endTime: new Date(Date.now() - options.olderThan.milliseconds)
+        }
+      : options;
+    const records = await this.queryLogRecords(filter);
+    const result: LogDeleteResult = {
+      dryRun: !!options.dryRun,
+      matched: records.length,
+      totalLogLength: records.reduce((total, r) => total + r.LogLength, 0),
+      deleted: [],
+      deletedLogLength: 0,
+      failures: []
+    };
+    if (options.dryRun) {
+      return result;
+    }
+
+    for (let i = 0; i < records.length; i += batchSize) {
+      const batch = records.slice(i, i + batchSize);
+      try {
+        const saveResults = await this.connection.destroy(
+          'ApexLog',
+          batch.map((record) => record.Id),
+          { allOrNone: false }
+        );
+        // results are returned in the order of the ids
+        saveResults.forEach((saveResult, index) => {
+          const record = batch[index];
+          if (saveResult.success) {
+            result.deleted.push(record.Id);
+            result.deletedLogLength += record.LogLength;
+          } else {
+            result.failures.push({
+              logId: record.Id,
+              message: saveResult.errors.map((e) => e.message).join(', ')
+            });
+          }
+        });
+      } catch (e) {
+        result.failures.push(
+          ...batch.map((record) => ({ logId: record.Id, message: e.message }))
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Streams a log body to disk. The file only appears under its final name
+   * once the download completed.
+   * @param logId log id
+   * @param logPath destination file
+   */
+  @elapsedTime()
+  public async downloadLog(logId: string, logPath: string): Promise<void> {
+    const baseUrl = this.connection.tooling._baseUrl();
+    const url = `${baseUrl}/sobjects/ApexLog/${logId}/Body`;
+    const partialPath = `${logPath}.part`;
+    try {
+      await pipeline(
+        this.toolingRequestStream(url),
+        createWriteStream(partialPath)
+      );
+      await rename(partialPath, logPath);
+    } catch (e) {
+      await rm(partialPath, { force: true });
+      throw e;
+    }
+  }
+
+  @elapsedTime()
+  public async getLogRecord(logId: string): Promise<LogRecord | undefined> {
+    const apexLogQuery = `
+        SELECT Id, Application, DurationMilliseconds, Location, LogLength, LogUser.Name,
+          Operation, Request, StartTime, Status
+        FROM ApexLog
+        WHERE Id = '${escapeSoqlString(logId)}'
+      `;
+    return (await this.connection.tooling.query<LogRecord>(apexLogQuery))
+      .records[0];
+  }
+
+  /**
+   * Streams new logs as they are generated
+   * @param org org to listen to
+   * @param tailer receives the (filtered) body of each log
+   * @param options filters on log metadata and log lines
+   */
+  @elapsedTime()
+  public async tail(
+    org: Org,
+    tailer?: (log: string) => void,
+    options?: LogTailOptions
+  ): Promise<void> {
     this.logger = await Logger.child('apexLogApi', { tag: 'tail' });
     this.logTailer = tailer;
+    this.tailOptions = options;
     const stream = await this.createStreamingClient(org);
 
     this.logger.debug(nls.localize('startHandshake'));
@@ -138,9 +393,25 @@ export class LogService {
   @elapsedTime()
   public async logCallback(message: StreamingLogMessage): Promise<void> {
     if (message.sobject?.Id) {
+      const options = this.tailOptions ?? {};
+      let record: LogRecord | undefined;
+      if (hasRecordFilter(options) || options.recordTailer) {
+        record = await this.getLogRecord(message.sobject.Id);
+        if (!record || !matchesLogRecord(record, options)) {
+          return;
+        }
+      }
+
       const log = await this.getLogById(message.sobject.Id);
-      if (log && this.logTailer) {
-        this.logTailer(log.log);
+      const body = log ? filterLogLines(log.log, options) : undefined;
+      if (body === undefined) {
+        return;
+      }
+      if (this.logTailer) {
+        this.logTailer(body);
+      }
+      if (options.recordTailer) {
+        options.recordTailer(record, body);
       }
     }
   }
@@ -163,6 +434,10 @@ export class LogService {
     await flags.ensureTraceFlags(requestedDebugLevel);
   }
 
+  public toolingRequestStream(url: string): Readable {
+    return this.connection.tooling.request(url).stream();
+  }
+
   @elapsedTime()
   public async toolingRequest(url: string): Promise<AnyJson> {
     const log = (await this.connection.tooling.request(url)) as AnyJson;
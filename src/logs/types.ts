@@ -4,12 +4,115 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
+import { Duration } from '@salesforce/kit';
 import { CommonOptions } from '../utils';
 
 export type ApexLogGetOptions = CommonOptions & {
   numberOfLogs?: number;
   logId?: string;
   outputDir?: string;
+  /**
+   * Parse each log into a structured event tree
+   */
+  parse?: boolean;
+  /**
+   * Profile each log. When outputDir is set, a speedscope profile and
+   * collapsed stacks are written next to each log file.
+   */
+  profile?: boolean;
+};
+
+/**
+ * Selects ApexLog records by start time, user and operation
+ */
+export type ApexLogFilter = {
+  /**
+   * Only logs started at or after this time
+   */
+  startTime?: Date | string;
+  /**
+   * Only logs started before this time
+   */
+  endTime?: Date | string;
+  /**
+   * Names of the users whose logs are selected
+   */
+  logUsers?: string[];
+  /**
+   * Operations whose logs are selected
+   */
+  operations?: string[];
+};
+
+export type ApexLogExportOptions = ApexLogFilter & {
+  outputDir: string;
+  /**
+   * Maximum number of logs downloaded at the same time
+   */
+  concurrency?: number;
+};
+
+export type ApexLogDeleteOptions = ApexLogFilter & {
+  /**
+   * Only logs older than this duration. Takes precedence over endTime.
+   */
+  olderThan?: Duration;
+  /**
+   * Report what would be deleted without deleting anything
+   */
+  dryRun?: boolean;
+  /**
+   * Number of logs deleted per request, from 1 to 200
+   */
+  batchSize?: number;
+};
+
+export type LogDeleteFailure = {
+  logId: string;
+  message: string;
+};
+
+export type LogDeleteResult = {
+  dryRun: boolean;
+  /**
+   * Number of logs matching the filter
+   */
+  matched: number;
+  /**
+   * Total length of the matching logs, in bytes
+   */
+  totalLogLength: number;
+  /**
+   * Ids of the deleted logs
+   */
+  deleted: string[];
+  /**
+   * Total length of the deleted logs, in bytes
+   */
+  deletedLogLength: number;
+  failures: LogDeleteFailure[];
+};
+
+export type LogExportEntry = {
+  logId: string;
+  logPath: string;
+  startTime: string;
+  logUser: string;
+  operation: string;
+  logLength: number;
+  /**
+   * Logs that were already in the output directory are skipped
+   */
+  status: 'downloaded' | 'skipped' | 'failed';
+  error?: string;
+};
+
+export type LogExportResult = {
+  /**
+   * Path of the JSON index of the exported logs
+   */
+  manifestPath: string;
+  logs: LogExportEntry[];
 };
 
 export interface LogRecord {
@@ -55,7 +158,222 @@ export interface LogRecord {
   Status: string;
 }
 
+export type LogTailOptions = {
+  /**
+   * Names of the users whose logs are kept
+   */
+  logUsers?: string[];
+  /**
+   * Operations whose logs are kept, e.g. /services/data/v60.0/tooling/executeAnonymous
+   */
+  operations?: string[];
+  /**
+   * Request types whose logs are kept, e.g. Api
+   */
+  requests?: string[];
+  /**
+   * Statuses whose logs are kept, e.g. Success
+   */
+  statuses?: string[];
+  /**
+   * Minimum time to generate a log, in milliseconds
+   */
+  minDurationMilliseconds?: number;
+  /**
+   * Only keep the lines of these event types, e.g. USER_DEBUG
+   */
+  eventTypes?: string[];
+  /**
+   * Only keep the lines matching this pattern
+   */
+  linePattern?: RegExp | string;
+  /**
+   * Receives the metadata of each log alongside its (filtered) body
+   */
+  recordTailer?: (record: LogRecord, log: string) => void;
+};
+
 export type LogResult = {
   logPath?: string;
   log: string;
+  /**
+   * Structured event tree, only populated when parsing was requested
+   */
+  parsed?: ParsedLog;
+  /**
+   * Time spent per method, only populated when profiling was requested
+   */
+  profile?: LogProfile;
+  /**
+   * Paths of the speedscope and collapsed stacks files
+   */
+  profilePaths?: string[];
+};
+
+/**
+ * Debug log event types that are recognized by the log parser. Any other
+ * event type found in a log is still returned, with its raw fields.
+ */
+export type LogEventType =
+  | 'EXECUTION_STARTED'
+  | 'EXECUTION_FINISHED'
+  | 'CODE_UNIT_STARTED'
+  | 'CODE_UNIT_FINISHED'
+  | 'METHOD_ENTRY'
+  | 'METHOD_EXIT'
+  | 'CONSTRUCTOR_ENTRY'
+  | 'CONSTRUCTOR_EXIT'
+  | 'SYSTEM_METHOD_ENTRY'
+  | 'SYSTEM_METHOD_EXIT'
+  | 'SOQL_EXECUTE_BEGIN'
+  | 'SOQL_EXECUTE_END'
+  | 'DML_BEGIN'
+  | 'DML_END'
+  | 'USER_DEBUG'
+  | 'EXCEPTION_THROWN'
+  | 'FATAL_ERROR'
+  | 'LIMIT_USAGE'
+  | 'LIMIT_USAGE_FOR_NS'
+  | 'CUMULATIVE_LIMIT_USAGE'
+  | 'CUMULATIVE_LIMIT_USAGE_END';
+
+export type LimitUsage = {
+  used: number;
+  max: number;
+};
+
+export type LogLimitUsage = LimitUsage & {
+  /**
+   * Name of the limit, e.g. SOQL
+   */
+  name: string;
+};
+
+export type LogEvent = {
+  type: LogEventType | string;
+  /**
+   * Wall clock time of the event as written in the log, e.g. 12:01:02.3
+   */
+  time: string;
+  /**
+   * Nanoseconds elapsed since the start of the request
+   */
+  timestamp: number;
+  /**
+   * Source line number, when the event carries one
+   */
+  lineNumber?: number;
+  /**
+   * Raw pipe-separated fields that follow the event type and line number
+   */
+  fields: string[];
+  /**
+   * Event text, including any continuation lines
+   */
+  text: string;
+  /**
+   * Code unit, method or constructor name, SOQL query or DML operation
+   */
+  name?: string;
+  /**
+   * Debug level of a USER_DEBUG event
+   */
+  level?: string;
+  /**
+   * USER_DEBUG output, or the message of an exception or fatal error
+   */
+  message?: string;
+  /**
+   * sObject type affected by a DML operation
+   */
+  sObjectType?: string;
+  /**
+   * Rows returned by a SOQL query or affected by a DML operation
+   */
+  rows?: number;
+  limitUsage?: LogLimitUsage;
+  /**
+   * Timestamp of the matching exit event, for events that open a block
+   */
+  exitTimestamp?: number;
+  /**
+   * Nanoseconds between the event and its matching exit event
+   */
+  duration?: number;
+  children: LogEvent[];
+};
+
+export type ParsedLog = {
+  /**
+   * API version from the log header
+   */
+  apiVersion?: string;
+  /**
+   * Log levels per category from the log header, e.g. { APEX_CODE: 'FINEST' }
+   */
+  logLevels: { [category: string]: string };
+  /**
+   * Top-level events, with nested events in their children
+   */
+  events: LogEvent[];
+};
+
+/**
+ * Governor limit consumption of a namespace, as reported by the
+ * LIMIT_USAGE_FOR_NS blocks of a debug log
+ */
+export type NamespaceLimitUsage = {
+  /**
+   * Namespace prefix, or (default) for code without a namespace
+   */
+  namespace: string;
+  soqlQueries?: LimitUsage;
+  queryRows?: LimitUsage;
+  dmlStatements?: LimitUsage;
+  dmlRows?: LimitUsage;
+  /**
+   * CPU time, in milliseconds
+   */
+  cpuTime?: LimitUsage;
+  /**
+   * Heap size, in bytes
+   */
+  heapSize?: LimitUsage;
+  callouts?: LimitUsage;
+  /**
+   * Every limit reported for the namespace, keyed by the label used in the log
+   */
+  limits: { [label: string]: LimitUsage };
+};
+
+export type LimitThresholdViolation = LogLimitUsage & {
+  namespace: string;
+  /**
+   * Consumed share of the limit, from 0 to 100
+   */
+  percentage: number;
+};
+
+export type MethodProfile = {
+  /**
+   * Code unit, method or constructor name
+   */
+  name: string;
+  calls: number;
+  /**
+   * Nanoseconds spent in the method, including the methods it called
+   */
+  totalTime: number;
+  /**
+   * Nanoseconds spent in the method itself
+   */
+  selfTime: number;
+};
+
+export type LogProfile = {
+  /**
+   * Nanoseconds covered by the top-level code units
+   */
+  totalTime: number;
+  methods: MethodProfile[];
 };
@@ -46,6 +46,17 @@ export interface CoverageTableRow {
   uncoveredLines: string;
 }
 
+export interface ComparisonRow {
+  testName: string;
+  detail: string;
+}
+
+export interface ComparisonGroup {
+  title: string;
+  emoji: string;
+  rows: ComparisonRow[];
+}
+
 export interface ReportData {
   timestamp: string;
   summary: {
@@ -78,6 +89,10 @@ export interface ReportData {
     rows: CoverageTableRow[];
     note?: string;
   };
+  comparison?: {
+    baselineTestRunId: string;
+    groups: ComparisonGroup[];
+  };
 }
 
 /**
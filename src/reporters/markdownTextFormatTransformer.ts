@@ -5,7 +5,12 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import { TestResult, ApexTestResultData } from '../tests/types';
+import {
+  TestResult,
+  ApexTestResultData,
+  TestComparisonEntry,
+  TestRunComparison
+} from '../tests/types';
 import { Readable, ReadableOptions } from 'node:stream';
 import { Logger } from '@salesforce/core';
 import { elapsedTime, HeapMonitor } from '../utils';
@@ -14,7 +19,8 @@ import {
   FailureTest,
   WarningTest,
   TestTableRow,
-  CoverageTableRow
+  CoverageTableRow,
+  ComparisonGroup
 } from './markdownReportTemplate';
 import {
   escapeMarkdown,
@@ -37,6 +43,7 @@ type MarkdownTextFormatTransformerOptions = ReadableOptions & {
   coverageThresholdPercent?: number;
   codeCoverage?: boolean;
   timestamp?: Date;
+  comparison?: TestRunComparison;
 };
 
 export class MarkdownTextFormatTransformer extends Readable {
@@ -50,6 +57,7 @@ export class MarkdownTextFormatTransformer extends Readable {
   private readonly coverageThresholdPercent: number;
   private readonly codeCoverage: boolean;
   private readonly timestamp: Date;
+  private readonly comparison?: TestRunComparison;
 
   constructor(
     testResult: TestResult,
@@ -66,6 +74,7 @@ export class MarkdownTextFormatTransformer extends Readable {
     this.coverageThresholdPercent = options?.coverageThresholdPercent ?? 75;
     this.codeCoverage = options?.codeCoverage ?? false;
     this.timestamp = options?.timestamp ?? new Date();
+    this.comparison = options?.comparison;
   }
 
   private pushToBuffer(chunk: string): void {
@@ -321,6 +330,11 @@ export class MarkdownTextFormatTransformer extends Readable {
             })
         : [];
 
+    const comparison = this.comparison && {
+      baselineTestRunId: this.comparison.baselineTestRunId,
+      groups: this.buildComparisonGroups(this.comparison)
+    };
+
     // Build report data object
     const reportData: ReportData = {
       timestamp: timestampStr,
@@ -349,12 +363,78 @@ export class MarkdownTextFormatTransformer extends Readable {
           rows: coverageTableRows,
           note: 'This section shows the overall code coverage for each class after all tests have run. This may differ from per-test coverage shown in the table above.'
         }
-      })
+      }),
+      ...(comparison && { comparison })
     };
 
     return reportData;
   }
 
+  private buildComparisonGroups(
+    comparison: TestRunComparison
+  ): ComparisonGroup[] {
+    const toRows = (
+      entries: TestComparisonEntry[],
+      detail: (entry: TestComparisonEntry) => string
+    ): ComparisonGroup['rows'] =>
+      entries.map((entry) => ({
+        testName: escapeMarkdown(entry.fullName),
+        detail: detail(entry)
+      }));
+    const outcomeChange = (entry: TestComparisonEntry): string =>
+      `${entry.baselineOutcome} → ${entry.currentOutcome}`;
+    const formatPercentage = (percentage?: number): string =>
+      percentage !== undefined ? `${percentage}%` : 'N/A';
+
+    const groups: ComparisonGroup[] = [
+      {
+        title: 'Newly Failing',
+        emoji: '❌',
+        rows: toRows(comparison.newlyFailing, outcomeChange)
+      },
+      {
+        title: 'Newly Passing',
+        emoji: '✅',
+        rows: toRows(comparison.newlyPassing, outcomeChange)
+      },
+      {
+        title: 'Still Failing',
+        emoji: '🔁',
+        rows: toRows(comparison.stillFailing, (e) => `${e.currentOutcome}`)
+      },
+      {
+        title: 'Added',
+        emoji: '➕',
+        rows: toRows(comparison.added, (e) => `${e.currentOutcome}`)
+      },
+      {
+        title: 'Removed',
+        emoji: '➖',
+        rows: toRows(comparison.removed, (e) => `${e.baselineOutcome}`)
+      },
+      {
+        title: 'Slower',
+        emoji: '🐌',
+        rows: toRows(
+          comparison.slower,
+          (e) =>
+            `${formatDuration(e.baselineRunTime ?? 0)} → ${formatDuration(e.currentRunTime ?? 0)}`
+        )
+      },
+      {
+        title: 'Coverage Changes',
+        emoji: '📊',
+        rows: comparison.coverageDeltas.map((delta) => ({
+          testName: escapeMarkdown(delta.name),
+          detail: `${formatPercentage(delta.baselinePercentage)} → ${formatPercentage(
+            delta.currentPercentage
+          )} (${delta.delta > 0 ? '+' : ''}${Number(delta.delta.toFixed(2))})`
+        }))
+      }
+    ];
+    return groups.filter((group) => group.rows.length > 0);
+  }
+
   private renderMarkdown(data: ReportData): void {
     this.pushToBuffer('# Apex Test Results\n');
     this.pushToBuffer(`**Run completed:** ${data.timestamp}\n`);
@@ -367,6 +447,25 @@ export class MarkdownTextFormatTransformer extends Readable {
     }
     this.pushToBuffer(`- ⏱️ **Duration:** ${data.summary.duration}\n\n`);
 
+    // Comparison with the baseline run
+    if (data.comparison) {
+      this.pushToBuffer(
+        `## 🔄 Changes Since ${data.comparison.baselineTestRunId || 'Baseline'}\n\n`
+      );
+      if (data.comparison.groups.length === 0) {
+        this.pushToBuffer('*No changes since the baseline run.*\n\n');
+      }
+      for (const group of data.comparison.groups) {
+        this.pushToBuffer(
+          `### ${group.emoji} ${group.title} (${group.rows.length})\n\n`
+        );
+        for (const row of group.rows) {
+          this.pushToBuffer(`- **${row.testName}** - ${row.detail}\n`);
+        }
+        this.pushToBuffer('\n');
+      }
+    }
+
     // Failures section (header uses full-run count from summary)
     if (data.failures.length > 0) {
       this.pushToBuffer(`## ❌ Failures (${data.summary.failed})\n\n`);
@@ -569,6 +668,23 @@ export class MarkdownTextFormatTransformer extends Readable {
     this.pushToBuffer(`  Total:   ${data.summary.total}\n`);
     this.pushToBuffer(`  Duration: ${data.summary.duration}\n\n`);
 
+    // Comparison with the baseline run
+    if (data.comparison) {
+      const title = `Changes Since ${data.comparison.baselineTestRunId || 'Baseline'}:`;
+      this.pushToBuffer(`${title}\n`);
+      this.pushToBuffer(`${'='.repeat(title.length)}\n\n`);
+      if (data.comparison.groups.length === 0) {
+        this.pushToBuffer('  No changes since the baseline run.\n\n');
+      }
+      for (const group of data.comparison.groups) {
+        this.pushToBuffer(`  ${group.title} (${group.rows.length}):\n`);
+        for (const row of group.rows) {
+          this.pushToBuffer(`    - ${row.testName}: ${row.detail}\n`);
+        }
+        this.pushToBuffer('\n');
+      }
+    }
+
     // Failures section
     if (data.failures.length > 0) {
       this.pushToBuffer('Failures:\n');
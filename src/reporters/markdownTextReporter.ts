@@ -5,7 +5,11 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import { TestResult, ApexTestResultData } from '../tests/types';
+import {
+  TestResult,
+  ApexTestResultData,
+  TestRunComparison
+} from '../tests/types';
 
 export type OutputFormat = 'markdown' | 'text';
 export type TestSortOrder = 'runtime' | 'coverage' | 'severity';
@@ -35,6 +39,10 @@ export interface MarkdownTextReporterOptions {
    * Timestamp for the test run. If not provided, current time will be used.
    */
   timestamp?: Date;
+  /**
+   * Comparison with a baseline run, rendered after the summary
+   */
+  comparison?: TestRunComparison;
 }
 
 /** Escapes markdown special characters */
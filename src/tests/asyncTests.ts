@@ -19,7 +19,8 @@ import {
   elapsedTime,
   formatStartTime,
   getCurrentTime,
-  HeapMonitor
+  HeapMonitor,
+  mapWithConcurrency
 } from '../utils';
 import { formatTestErrors, getDiagnostic } from './diagnosticUtil';
 import {
@@ -34,12 +35,14 @@ import {
   ApexTestRunResultStatus,
   AsyncTestArrayConfiguration,
   AsyncTestConfiguration,
+  AsyncTestRunOptions,
   TestResult,
   TestResultRaw,
   TestRunIdResult,
   FlowTestResult,
   ApexTestResultRecord,
-  TestCategory
+  TestCategory,
+  TestLevel
 } from './types';
 import {
   calculatePercentage,
@@ -49,9 +52,10 @@ import {
   calculateCodeCoverage
 } from './utils';
 import * as util from 'util';
-import { QUERY_RECORD_LIMIT } from './constants';
+import { LIMIT_USAGE_LOG_CONCURRENCY, QUERY_RECORD_LIMIT } from './constants';
 import { CodeCoverage } from './codeCoverage';
 import { isValidTestRunID } from '../narrowing';
+import { analyzeLimits, LogService, NamespaceLimitUsage } from '../logs';
 import { Duration } from '@salesforce/kit';
 import { createWriteStream } from 'node:fs';
 import { pipeline } from 'node:stream/promises';
@@ -113,6 +117,8 @@ export class AsyncTests {
    * @param token cancellation token
    * @param timeout Duration to wait before returning a TestRunIdResult. If the polling client times out,
    *                the method will return the test run ID so you can retrieve results later.
+   * @param interval polling frequency
+   * @param runOptions options for gathering the test results
    */
   @elapsedTime()
   public async runTests(
@@ -122,7 +128,8 @@ export class AsyncTests {
     progress?: Progress<ApexTestProgressValue>,
     token?: CancellationToken,
     timeout?: Duration,
-    interval: Duration = POLLING_FREQUENCY
+    interval: Duration = POLLING_FREQUENCY,
+    runOptions?: AsyncTestRunOptions
   ): Promise<TestResult | TestRunIdResult> {
     HeapMonitor.getInstance().checkHeapSize('asyncTests.runTests');
     let testRunId: string;
@@ -230,6 +237,21 @@ export class AsyncTests {
         progress
       );
 
+      if (runOptions?.retryFailedTests > 0) {
+        await this.rerunFailedTests(
+          formattedResults,
+          runOptions,
+          progress,
+          token,
+          timeout,
+          interval
+        );
+      }
+
+      if (runOptions?.reportLimits) {
+        await this.attachLimitUsage(formattedResults);
+      }
+
       await this.writeResultsToFile(formattedResults, testRunId);
       return formattedResults;
     } catch (e) {
@@ -631,6 +653,168 @@ export class AsyncTests {
     }
   }
 
+  /**
+   * Reads the debug log of each test and attaches its governor limit usage.
+   * Tests without a debug log, or whose log can't be retrieved, are left as is.
+   * @param result formatted test result
+   */
+  @elapsedTime()
+  public async attachLimitUsage(result: TestResult): Promise<void> {
+    const logService = new LogService(this.connection);
+    const logIds = new Set(
+      result.tests.map((test) => test.apexLogId).filter((logId) => logId)
+    );
+    const usageByLogId = new Map<string, NamespaceLimitUsage[]>();
+
+    await mapWithConcurrency(
+      Array.from(logIds),
+      LIMIT_USAGE_LOG_CONCURRENCY,
+      async (logId) => {
+        try {
+          const { log } = await logService.getLogById(logId);
+          usageByLogId.set(logId, analyzeLimits(log));
+        } catch (e) {
+          this.logger.debug(
+            `Unable to retrieve debug log ${logId}: ${e.message}`
+          );
+        }
+      }
+    );
+
+    for (const test of result.tests) {
+      const limitUsage = usageByLogId.get(test.apexLogId);
+      if (limitUsage) {
+        test.limitUsage = limitUsage;
+      }
+    }
+  }
+
+  /**
+   * Runs the failed Apex test methods again, up to runOptions.retryFailedTests
+   * times. Tests that pass on a later attempt replace their failed result and
+   * are marked as flaky, and the summary is updated.
+   * @param result formatted test result
+   * @param runOptions number of attempts and whether reruns are serial
+   * @param progress progress reporter
+   * @param token cancellation token
+   * @param timeout Duration to wait for each rerun
+   * @param interval polling frequency
+   */
+  @elapsedTime()
+  public async rerunFailedTests(
+    result: TestResult,
+    runOptions: AsyncTestRunOptions,
+    progress?: Progress<ApexTestProgressValue>,
+    token?: CancellationToken,
+    timeout?: Duration,
+    interval: Duration = POLLING_FREQUENCY
+  ): Promise<void> {
+    const rerunStartTime = getCurrentTime();
+    for (const test of result.tests) {
+      test.attempts = 1;
+    }
+
+    for (
+      let attempt = 2;
+      attempt <= runOptions.retryFailedTests + 1;
+      attempt++
+    ) {
+      const failedTests = result.tests.filter(
+        (test) =>
+          test.outcome === ApexTestResultOutcome.Fail &&
+          test.category !== TestCategory.Flow
+      );
+      if (!failedTests.length || token?.isCancellationRequested) {
+        break;
+      }
+
+      const testItems = failedTests.map((test) => ({
+        className: test.apexClass.fullName,
+        testMethods: [test.methodName]
+      }));
+      const runs = runOptions.retrySerially
+        ? testItems.map((item) => [item])
+        : [testItems];
+
+      for (const tests of runs) {
+        const rerun = await this.runTests(
+          {
+            tests,
+            testLevel: TestLevel.RunSpecifiedTests,
+            skipCodeCoverage: true
+          },
+          false,
+          false,
+          progress,
+          token,
+          timeout,
+          interval
+        );
+        if (!rerun || !('tests' in rerun)) {
+          this.logger.debug(
+            `Rerun of failed tests did not complete, attempt ${attempt}`
+          );
+          continue;
+        }
+
+        for (const rerunTest of rerun.tests) {
+          const index = result.tests.findIndex(
+            (test) => test.fullName === rerunTest.fullName
+          );
+          if (index >= 0) {
+            result.tests[index] = {
+              ...rerunTest,
+              attempts: attempt,
+              flaky: rerunTest.outcome === ApexTestResultOutcome.Pass,
+              ...(result.tests[index].perClassCoverage
+                ? { perClassCoverage: result.tests[index].perClassCoverage }
+                : {})
+            };
+          }
+        }
+      }
+    }
+
+    this.updateSummaryAfterRerun(result, getCurrentTime() - rerunStartTime);
+  }
+
+  private updateSummaryAfterRerun(
+    result: TestResult,
+    rerunTimeInMs: number
+  ): void {
+    const { summary, tests } = result;
+    summary.testsRan = tests.length;
+    summary.passing = tests.filter(
+      (test) => test.outcome === ApexTestResultOutcome.Pass
+    ).length;
+    summary.failing = tests.filter(
+      (test) =>
+        test.outcome === ApexTestResultOutcome.Fail ||
+        test.outcome === ApexTestResultOutcome.CompileFail
+    ).length;
+    summary.skipped = tests.filter(
+      (test) => test.outcome === ApexTestResultOutcome.Skip
+    ).length;
+    summary.flaky = tests.filter((test) => test.flaky).length;
+    summary.passRate = calculatePercentage(summary.passing, tests.length);
+    summary.failRate = calculatePercentage(summary.failing, tests.length);
+    summary.skipRate = calculatePercentage(summary.skipped, tests.length);
+    // the run times of the reruns replace those of the failed attempts
+    summary.testExecutionTimeInMs = tests.reduce(
+      (total, test) => total + (test.runTime ?? 0),
+      0
+    );
+    summary.testTotalTimeInMs =
+      (summary.testSetupTimeInMs ?? 0) + summary.testExecutionTimeInMs;
+    summary.commandTimeInMs += rerunTimeInMs;
+    if (
+      summary.failing === 0 &&
+      summary.outcome === ApexTestRunResultStatus.Failed
+    ) {
+      summary.outcome = ApexTestRunResultStatus.Passed;
+    }
+  }
+
   /**
    * Abort test run with test run id
    * @param testRunId
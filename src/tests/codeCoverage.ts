@@ -11,13 +11,17 @@ import {
   ApexCodeCoverageAggregate,
   ApexCodeCoverageAggregateRecord,
   ApexOrgWideCoverage,
+  ApexTestImpact,
   CodeCoverageResult,
-  PerClassCoverage
+  PerClassCoverage,
+  TestImpactChange,
+  TestImpactResult,
+  TestItem
 } from './types';
 import * as util from 'util';
 import { calculatePercentage, queryAll } from './utils';
-import { QUERY_RECORD_LIMIT } from './constants';
-import { elapsedTime, HeapMonitor } from '../utils';
+import { QUERY_CHAR_LIMIT, QUERY_RECORD_LIMIT } from './constants';
+import { elapsedTime, escapeSoqlString, HeapMonitor } from '../utils';
 
 export class CodeCoverage {
   public readonly connection: Connection;
@@ -174,6 +178,74 @@ export class CodeCoverage {
     }
   }
 
+  /**
+   * Returns the test methods that exercise the given Apex classes and triggers, from ApexCodeCoverage entity
+   * @param changes Changed Apex classes and triggers, optionally with the changed line ranges
+   * @returns Test items covering the changed lines, and the changes that no test method covers
+   * NOTE: coverage is only as recent as the last test run in the org, so lines added since then are untested changes
+   */
+  @elapsedTime()
+  public async getImpactedTests(
+    changes: TestImpactChange[]
+  ): Promise<TestImpactResult> {
+    const names = new Set(changes.map((change) => change.name));
+    if (names.size === 0) {
+      return { testItems: [], untestedChanges: [] };
+    }
+
+    const query =
+      'SELECT ApexTestClass.Name, ApexTestClass.NamespacePrefix, ApexClassOrTrigger.Name, TestMethodName, Coverage FROM ApexCodeCoverage WHERE ApexClassOrTrigger.Name IN (%s)';
+    // class names are longer than ids, so the queries are also split by length
+    const results = await this.fetchResults<ApexTestImpact>(
+      names,
+      query,
+      QUERY_CHAR_LIMIT
+    );
+
+    const testMethods = new Map<string, Set<string>>();
+    const coveredChanges = new Set<TestImpactChange>();
+    for (const record of results.flatMap((chunk) => chunk.records)) {
+      const coveredLines = record.Coverage?.coveredLines ?? [];
+      const impacted = changes.filter(
+        (change) =>
+          change.name.toLowerCase() ===
+            record.ApexClassOrTrigger.Name.toLowerCase() &&
+          (!change.lines ||
+            change.lines.some((range) =>
+              coveredLines.some(
+                (line) => line >= range.start && line <= range.end
+              )
+            ))
+      );
+      if (impacted.length === 0) {
+        continue;
+      }
+      impacted.forEach((change) => coveredChanges.add(change));
+
+      const { Name, NamespacePrefix } = record.ApexTestClass;
+      const className = NamespacePrefix ? `${NamespacePrefix}.${Name}` : Name;
+      if (!testMethods.has(className)) {
+        testMethods.set(className, new Set());
+      }
+      testMethods.get(className).add(record.TestMethodName);
+    }
+
+    const testItems: TestItem[] = [...testMethods.keys()]
+      .sort()
+      .map((className) => ({
+        className,
+        testMethods: [...testMethods.get(className)].sort()
+      }));
+    const untestedChanges = [
+      ...new Set(
+        changes
+          .filter((change) => !coveredChanges.has(change))
+          .map((change) => change.name)
+      )
+    ];
+    return { testItems, untestedChanges };
+  }
+
   @elapsedTime()
   private async queryPerClassCodeCov(
     apexTestClassSet: Set<string>
@@ -209,9 +281,13 @@ export class CodeCoverage {
 
   @elapsedTime()
   private async fetchResults<
-    T extends ApexCodeCoverage | ApexCodeCoverageAggregate
-  >(idSet: Set<string>, selectQuery: string): Promise<T[]> {
-    const queries = this.createQueries(selectQuery, idSet);
+    T extends ApexCodeCoverage | ApexCodeCoverageAggregate | ApexTestImpact
+  >(
+    idSet: Set<string>,
+    selectQuery: string,
+    queryCharLimit = Infinity
+  ): Promise<T[]> {
+    const queries = this.createQueries(selectQuery, idSet, queryCharLimit);
 
     const queryPromises = queries.map((query) =>
       // The query method returns a type QueryResult from jsforce
@@ -228,15 +304,30 @@ export class CodeCoverage {
     return (await Promise.all(queryPromises)) as T[];
   }
 
-  private createQueries(selectQuery: string, idSet: Set<string>): string[] {
+  private createQueries(
+    selectQuery: string,
+    idSet: Set<string>,
+    queryCharLimit: number
+  ): string[] {
     const queries: string[] = [];
-    for (let i = 0; i < idSet.size; i += QUERY_RECORD_LIMIT) {
-      const recordSet = Array.from(idSet)
-        .slice(i, i + QUERY_RECORD_LIMIT)
-        .map((id) => `'${id}'`);
-
-      const query: string = util.format(selectQuery, recordSet.join(','));
-      queries.push(query);
+    let recordSet: string[] = [];
+    let queryLength = selectQuery.length;
+    for (const id of idSet) {
+      // ids or names, e.g. of changed classes, quoted as SOQL strings
+      const value = `'${escapeSoqlString(id)}'`;
+      if (
+        recordSet.length === QUERY_RECORD_LIMIT ||
+        (recordSet.length && queryLength + value.length + 1 > queryCharLimit)
+      ) {
+        queries.push(util.format(selectQuery, recordSet.join(',')));
+        recordSet = [];
+        queryLength = selectQuery.length;
+      }
+      recordSet.push(value);
+      queryLength += value.length + 1;
+    }
+    if (recordSet.length) {
+      queries.push(util.format(selectQuery, recordSet.join(',')));
     }
 
     return queries;
@@ -10,5 +10,9 @@
 // Through experimentation, the record limit is around 550 before the REST API limit is hit.
 // To err on the side of caution, the limit is reduced down  to 500.
 export const QUERY_RECORD_LIMIT = 500;
+// Queries listing values longer than ids, e.g. class names, are also split by length
+export const QUERY_CHAR_LIMIT = 12000;
+// Debug logs downloaded at a time to read the limit usage of tests
+export const LIMIT_USAGE_LOG_CONCURRENCY = 5;
 export const CLASS_ID_PREFIX = '01p';
 export const TEST_RUN_ID_PREFIX = '707';
@@ -16,15 +16,56 @@ export {
   ApexTestSetupData,
   AsyncTestArrayConfiguration,
   AsyncTestConfiguration,
+  AsyncTestRunOptions,
   CodeCoverageResult,
+  CoverageDelta,
+  DiscoveredTestClass,
+  DiscoveredTestMethod,
   OutputDirConfig,
   ResultFormat,
+  ShardedTestResult,
+  ShardedTestRunOptions,
+  StabilityReport,
   SyncTestConfiguration,
   TestCategory,
+  TestComparisonEntry,
+  TestHistoryTrendPoint,
+  TestImpactChange,
+  TestImpactResult,
+  TestMethodStability,
+  TestPassRate,
+  TestRepeatConfiguration,
   TestItem,
   TestLevel,
   TestResult,
+  TestRunHistoryRecord,
+  TestRunComparison,
+  TestRunComparisonOptions,
   TestRunIdResult,
+  TestShard,
+  TestSuiteDefinition,
+  TestSuiteSyncResult,
   PerClassCoverage
 } from './types';
 export { writeAsyncResultsToFile } from './asyncTests';
+export { buildStabilityReport } from './stability';
+export { TestHistoryStore } from './testHistory';
+export { mergeTestResults } from './mergeTestResults';
+export { isTestPattern, selectTests } from './testSelection';
+export {
+  discoverTestClasses,
+  discoverTestItems,
+  parseApexTestClass
+} from './testDiscovery';
+export {
+  buildTestSuiteMetadata,
+  readTestSuiteFile,
+  TEST_SUITE_FILE_SUFFIX,
+  writeTestSuiteFile
+} from './testSuiteMetadata';
+export { partitionTestItems, ShardedTests } from './shardedTests';
+export {
+  compareTestResults,
+  compareTestRuns,
+  readTestResultFile
+} from './testComparison';
@@ -0,0 +1,185 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { nls } from '../i18n';
+import {
+  ApexTestResultOutcome,
+  ApexTestRunResultStatus,
+  CodeCoverageResult,
+  TestResult
+} from './types';
+import { calculatePercentage } from './utils';
+
+/**
+ * Merges the coverage of classes and triggers reported by several runs. Ids
+ * differ between orgs, so classes are matched by name and a line counts as
+ * covered when any run covered it.
+ */
+function mergeCodeCoverage(results: TestResult[]): CodeCoverageResult[] {
+  const merged = new Map<string, CodeCoverageResult>();
+  for (const coverage of results.flatMap((r) => r.codecoverage ?? [])) {
+    const existing = merged.get(coverage.name);
+    const coveredLines = new Set([
+      ...(existing?.coveredLines ?? []),
+      ...coverage.coveredLines
+    ]);
+    const uncoveredLines = new Set(
+      [...(existing?.uncoveredLines ?? []), ...coverage.uncoveredLines].filter(
+        (line) => !coveredLines.has(line)
+      )
+    );
+    merged.set(coverage.name, {
+      ...(existing ?? coverage),
+      numLinesCovered: coveredLines.size,
+      numLinesUncovered: uncoveredLines.size,
+      percentage: calculatePercentage(
+        coveredLines.size,
+        coveredLines.size + uncoveredLines.size
+      ),
+      coveredLines: [...coveredLines].sort((a, b) => a - b),
+      uncoveredLines: [...uncoveredLines].sort((a, b) => a - b)
+    });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Keeps one entry per test class and method, in the position of its first
+ * entry. Entries of a run replace those of runs that started earlier.
+ */
+function latestByFullName<T extends { fullName: string }>(
+  runs: { startTime: number; entries: T[] }[]
+): T[] {
+  const latest = new Map<string, { startTime: number; entry: T }>();
+  for (const { startTime, entries } of runs) {
+    for (const entry of entries) {
+      const existing = latest.get(entry.fullName);
+      if (!existing || startTime >= existing.startTime) {
+        latest.set(entry.fullName, { startTime, entry });
+      }
+    }
+  }
+  return [...latest.values()].map(({ entry }) => entry);
+}
+
+/**
+ * Combines the results of several test runs, e.g. shards of a run, a sync and
+ * an async run, or a run and its later reruns, into one result. A test method
+ * reported by several runs keeps the outcome of the run that started last.
+ * The summary is recomputed from the combined tests and coverage, except the
+ * run details (org, user, test run id), which are those of the first result.
+ *
+ * @param results test results to merge, at least one
+ * @returns merged test result
+ */
+export function mergeTestResults(results: TestResult[]): TestResult {
+  if (results.length === 0) {
+    throw new Error(nls.localize('mergeTestResultsEmptyErr'));
+  }
+  const [first] = results;
+  const startTimes = results.map((result) =>
+    Date.parse(result.summary.testStartTime)
+  );
+  const tests = latestByFullName(
+    results.map((result, i) => ({
+      startTime: startTimes[i],
+      entries: result.tests
+    }))
+  );
+  const setup = latestByFullName(
+    results.map((result, i) => ({
+      startTime: startTimes[i],
+      entries: result.setup ?? []
+    }))
+  );
+  const summaries = results.map((result) => result.summary);
+  // runs without a valid start time can't be the earliest
+  const validStartTimes = startTimes.filter((time) => Number.isFinite(time));
+  const earliest = validStartTimes.length
+    ? results[startTimes.indexOf(Math.min(...validStartTimes))]
+    : first;
+
+  const passing = tests.filter(
+    (test) => test.outcome === ApexTestResultOutcome.Pass
+  ).length;
+  const failing = tests.filter(
+    (test) =>
+      test.outcome === ApexTestResultOutcome.Fail ||
+      test.outcome === ApexTestResultOutcome.CompileFail
+  ).length;
+  const skipped = tests.filter(
+    (test) => test.outcome === ApexTestResultOutcome.Skip
+  ).length;
+
+  let outcome: string = ApexTestRunResultStatus.Passed;
+  if (summaries.some((s) => s.outcome === ApexTestRunResultStatus.Aborted)) {
+    outcome = ApexTestRunResultStatus.Aborted;
+  } else if (failing > 0) {
+    outcome = ApexTestRunResultStatus.Failed;
+  } else if (passing === 0) {
+    outcome = ApexTestRunResultStatus.Skipped;
+  }
+
+  const testSetupTimeInMs = setup.reduce(
+    (total, method) => total + (method.testSetupTime ?? 0),
+    0
+  );
+  const testExecutionTimeInMs = tests.reduce(
+    (total, test) => total + (test.runTime ?? 0),
+    0
+  );
+
+  const merged: TestResult = {
+    summary: {
+      ...first.summary,
+      outcome,
+      testsRan: tests.length,
+      passing,
+      failing,
+      skipped,
+      passRate: calculatePercentage(passing, tests.length),
+      failRate: calculatePercentage(failing, tests.length),
+      skipRate: calculatePercentage(skipped, tests.length),
+      testStartTime: earliest.summary.testStartTime,
+      testSetupTimeInMs,
+      testExecutionTimeInMs,
+      testTotalTimeInMs: testSetupTimeInMs + testExecutionTimeInMs,
+      // the runs may have overlapped, so the slowest one is the command time
+      commandTimeInMs: Math.max(...summaries.map((s) => s.commandTimeInMs))
+    },
+    tests,
+    setup
+  };
+
+  if (results.some((result) => result.codecoverage)) {
+    const codecoverage = mergeCodeCoverage(results);
+    const coveredLines = codecoverage.reduce(
+      (total, c) => total + c.numLinesCovered,
+      0
+    );
+    const totalLines = codecoverage.reduce(
+      (total, c) => total + c.numLinesCovered + c.numLinesUncovered,
+      0
+    );
+    merged.codecoverage = codecoverage;
+    merged.summary.coveredLines = coveredLines;
+    merged.summary.totalLines = totalLines;
+    merged.summary.testRunCoverage = calculatePercentage(
+      coveredLines,
+      totalLines
+    );
+  }
+  // org wide coverage cannot be combined, keep it only when the runs agree
+  if (
+    summaries.some((s) => s.orgWideCoverage !== first.summary.orgWideCoverage)
+  ) {
+    delete merged.summary.orgWideCoverage;
+  }
+  if (summaries.some((s) => s.flaky !== undefined)) {
+    merged.summary.flaky = tests.filter((test) => test.flaky).length;
+  }
+  return merged;
+}
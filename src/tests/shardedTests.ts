@@ -0,0 +1,164 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { Duration } from '@salesforce/kit';
+import { CancellationToken, Progress } from '../common';
+import { nls } from '../i18n';
+import { isTestResult } from '../narrowing';
+import { elapsedTime } from '../utils';
+import { mergeTestResults } from './mergeTestResults';
+import { TestService } from './testService';
+import {
+  ApexTestProgressValue,
+  ShardedTestResult,
+  ShardedTestRunOptions,
+  TestItem,
+  TestLevel,
+  TestResult,
+  TestShard
+} from './types';
+
+/**
+ * Splits test items into at most shardCount groups of similar run time. Items
+ * are placed longest first on the group with the least run time so far. Items
+ * without a known run time count as the average known run time, so without
+ * any run times the groups are balanced by number of items.
+ *
+ * @param tests test items to split
+ * @param shardCount maximum number of groups
+ * @param classRuntimes run time of each test class, keyed by class name
+ * @returns non-empty groups of test items
+ */
+export function partitionTestItems(
+  tests: TestItem[],
+  shardCount: number,
+  classRuntimes: { [className: string]: number } = {}
+): TestItem[][] {
+  const knownRuntimes = tests
+    .map((test) => classRuntimes[test.className ?? test.classId])
+    .filter((runtime) => runtime !== undefined);
+  const defaultRuntime = knownRuntimes.length
+    ? knownRuntimes.reduce((total, runtime) => total + runtime, 0) /
+      knownRuntimes.length
+    : 1;
+
+  const shards = Array.from({ length: shardCount }, () => ({
+    runtime: 0,
+    tests: [] as TestItem[]
+  }));
+  tests
+    .map((test) => ({
+      test,
+      runtime: classRuntimes[test.className ?? test.classId] ?? defaultRuntime
+    }))
+    .sort((a, b) => b.runtime - a.runtime)
+    .forEach(({ test, runtime }) => {
+      const shard = shards.reduce((lightest, candidate) =>
+        candidate.runtime < lightest.runtime ? candidate : lightest
+      );
+      shard.tests.push(test);
+      shard.runtime += runtime;
+    });
+  return shards.map((shard) => shard.tests).filter((group) => group.length);
+}
+
+/**
+ * Runs tests across several orgs with the same metadata, one asynchronous
+ * run per org, and merges the results
+ */
+export class ShardedTests {
+  public readonly connections: Connection[];
+
+  constructor(connections: Connection[]) {
+    this.connections = connections;
+  }
+
+  /**
+   * Splits the test classes across the orgs and runs them concurrently
+   * @param tests test classes and methods to run
+   * @param options code coverage and run times used to balance the shards
+   * @param progress progress reporter, shared by all shards
+   * @param token cancellation token, cancelling every shard
+   * @param timeout Duration to wait for each shard
+   * @param interval polling frequency
+   * @returns test run of each shard and their merged result
+   */
+  @elapsedTime()
+  public async runTests(
+    tests: TestItem[],
+    options: ShardedTestRunOptions = {},
+    progress?: Progress<ApexTestProgressValue>,
+    token?: CancellationToken,
+    timeout?: Duration,
+    interval?: Duration
+  ): Promise<ShardedTestResult> {
+    if (this.connections.length === 0) {
+      throw new Error(nls.localize('noShardConnectionsErr'));
+    }
+    const codeCoverage = options.codeCoverage ?? false;
+    const groups = partitionTestItems(
+      tests,
+      this.connections.length,
+      options.classRuntimes
+    );
+
+    // a failed shard must not discard the results of the other orgs
+    const runs = await Promise.allSettled(
+      groups.map((group, index) =>
+        new TestService(this.connections[index]).runTestAsynchronous(
+          {
+            tests: group,
+            testLevel: TestLevel.RunSpecifiedTests,
+            skipCodeCoverage: !codeCoverage
+          },
+          codeCoverage,
+          false,
+          progress,
+          token,
+          timeout,
+          interval
+        )
+      )
+    );
+
+    const completed: TestResult[] = [];
+    const shards = runs.map((run, index): TestShard => {
+      const shard = {
+        username: this.connections[index].getUsername(),
+        tests: groups[index]
+      };
+      if (run.status === 'rejected') {
+        return {
+          ...shard,
+          completed: false,
+          error:
+            run.reason instanceof Error ? run.reason.message : `${run.reason}`
+        };
+      }
+      const result = run.value;
+      // a cancelled run resolves to null
+      if (!result) {
+        return { ...shard, completed: false };
+      }
+      if (isTestResult(result)) {
+        completed.push(result);
+        return {
+          ...shard,
+          testRunId: result.summary.testRunId,
+          completed: true
+        };
+      }
+      // a shard that timed out only has its test run id
+      return { ...shard, testRunId: result.testRunId, completed: false };
+    });
+
+    return {
+      shards,
+      ...(completed.length && { result: mergeTestResults(completed) })
+    };
+  }
+}
@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import {
+  ApexTestResultData,
+  ApexTestResultOutcome,
+  StabilityReport,
+  TestMethodStability,
+  TestResult
+} from './types';
+
+/**
+ * Aggregates the results of repeated runs of the same tests into the pass and
+ * fail counts and the run time statistics of each test method.
+ *
+ * @param results results of each run
+ * @param iterations number of runs that were requested
+ * @returns stability report
+ */
+export function buildStabilityReport(
+  results: TestResult[],
+  iterations = results.length
+): StabilityReport {
+  const testsByName = new Map<string, ApexTestResultData[]>();
+  for (const result of results) {
+    for (const test of result.tests) {
+      const runs = testsByName.get(test.fullName) ?? [];
+      runs.push(test);
+      testsByName.set(test.fullName, runs);
+    }
+  }
+
+  const tests: TestMethodStability[] = [];
+  for (const [fullName, runs] of testsByName) {
+    const count = (outcomes: ApexTestResultOutcome[]): number =>
+      runs.filter((run) => outcomes.includes(run.outcome)).length;
+    const runTimes = runs.map((run) => run.runTime ?? 0);
+    const meanRunTime =
+      runTimes.reduce((total, runTime) => total + runTime, 0) / runs.length;
+    const variance =
+      runTimes.reduce(
+        (total, runTime) => total + (runTime - meanRunTime) ** 2,
+        0
+      ) / runs.length;
+    const passed = count([ApexTestResultOutcome.Pass]);
+    const failed = count([
+      ApexTestResultOutcome.Fail,
+      ApexTestResultOutcome.CompileFail
+    ]);
+
+    tests.push({
+      fullName,
+      className: runs[0].apexClass.fullName,
+      methodName: runs[0].methodName,
+      runs: runs.length,
+      passed,
+      failed,
+      skipped: count([ApexTestResultOutcome.Skip]),
+      meanRunTime,
+      runTimeStdDev: Math.sqrt(variance),
+      nondeterministic: passed > 0 && failed > 0
+    });
+  }
+
+  tests.sort(
+    (a, b) =>
+      Number(b.nondeterministic) - Number(a.nondeterministic) ||
+      a.fullName.localeCompare(b.fullName)
+  );
+  return {
+    iterations,
+    completedIterations: results.length,
+    testRunIds: results.map((result) => result.summary.testRunId),
+    tests
+  };
+}
@@ -0,0 +1,215 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { readFile } from 'node:fs/promises';
+import { nls } from '../i18n';
+import {
+  ApexTestResultData,
+  ApexTestResultOutcome,
+  CoverageDelta,
+  TestComparisonEntry,
+  TestResult,
+  TestRunComparison,
+  TestRunComparisonOptions
+} from './types';
+
+const DEFAULT_SLOWER_THRESHOLD_PERCENT = 50;
+const DEFAULT_SLOWER_THRESHOLD_MS = 100;
+
+function isFailing(outcome: ApexTestResultOutcome | undefined): boolean {
+  return (
+    outcome === ApexTestResultOutcome.Fail ||
+    outcome === ApexTestResultOutcome.CompileFail
+  );
+}
+
+function toPercentage(value: string | undefined): number | undefined {
+  const percentage = parseFloat(value ?? '');
+  return isNaN(percentage) ? undefined : percentage;
+}
+
+function toEntry(
+  fullName: string,
+  baseline: ApexTestResultData | undefined,
+  current: ApexTestResultData | undefined
+): TestComparisonEntry {
+  return {
+    fullName,
+    ...(baseline && {
+      baselineOutcome: baseline.outcome,
+      baselineRunTime: baseline.runTime
+    }),
+    ...(current && {
+      currentOutcome: current.outcome,
+      currentRunTime: current.runTime
+    })
+  };
+}
+
+function compareCoverage(
+  baseline: TestResult,
+  current: TestResult
+): CoverageDelta[] {
+  const baselineCoverage = new Map(
+    (baseline.codecoverage ?? []).map((c) => [
+      c.name,
+      toPercentage(c.percentage)
+    ])
+  );
+  const currentCoverage = new Map(
+    (current.codecoverage ?? []).map((c) => [
+      c.name,
+      toPercentage(c.percentage)
+    ])
+  );
+  const names = new Set([
+    ...baselineCoverage.keys(),
+    ...currentCoverage.keys()
+  ]);
+  return [...names]
+    .map((name) => {
+      const baselinePercentage = baselineCoverage.get(name);
+      const currentPercentage = currentCoverage.get(name);
+      return {
+        name,
+        baselinePercentage,
+        currentPercentage,
+        delta: (currentPercentage ?? 0) - (baselinePercentage ?? 0)
+      };
+    })
+    .filter(
+      (delta) =>
+        delta.delta !== 0 ||
+        baselineCoverage.has(delta.name) !== currentCoverage.has(delta.name)
+    )
+    .sort((a, b) => a.delta - b.delta || a.name.localeCompare(b.name));
+}
+
+/**
+ * Compares the test outcomes, runtimes and code coverage of two test runs.
+ * A test is reported as slower when its runtime grew by both the percent and
+ * the milliseconds thresholds.
+ *
+ * @param baseline earlier test run
+ * @param current later test run
+ * @param options thresholds for slower tests
+ * @returns changes from the baseline to the current run
+ */
+export function compareTestResults(
+  baseline: TestResult,
+  current: TestResult,
+  options: TestRunComparisonOptions = {}
+): TestRunComparison {
+  const slowerThresholdPercent =
+    options.slowerThresholdPercent ?? DEFAULT_SLOWER_THRESHOLD_PERCENT;
+  const slowerThresholdMs =
+    options.slowerThresholdMs ?? DEFAULT_SLOWER_THRESHOLD_MS;
+
+  const baselineTests = new Map(
+    baseline.tests.map((test) => [test.fullName, test])
+  );
+  const currentTests = new Map(
+    current.tests.map((test) => [test.fullName, test])
+  );
+
+  const comparison: TestRunComparison = {
+    baselineTestRunId: baseline.summary.testRunId,
+    currentTestRunId: current.summary.testRunId,
+    newlyFailing: [],
+    newlyPassing: [],
+    stillFailing: [],
+    added: [],
+    removed: [],
+    slower: [],
+    coverageDeltas: compareCoverage(baseline, current)
+  };
+
+  for (const [fullName, test] of currentTests) {
+    const previous = baselineTests.get(fullName);
+    const entry = toEntry(fullName, previous, test);
+    if (!previous) {
+      comparison.added.push(entry);
+      continue;
+    }
+    if (isFailing(test.outcome)) {
+      (isFailing(previous.outcome)
+        ? comparison.stillFailing
+        : comparison.newlyFailing
+      ).push(entry);
+    } else if (
+      isFailing(previous.outcome) &&
+      test.outcome === ApexTestResultOutcome.Pass
+    ) {
+      comparison.newlyPassing.push(entry);
+    }
+
+    const increase = (test.runTime ?? 0) - (previous.runTime ?? 0);
+    if (
+      increase >= slowerThresholdMs &&
+      increase * 100 >= (previous.runTime ?? 0) * slowerThresholdPercent
+    ) {
+      comparison.slower.push(entry);
+    }
+  }
+
+  for (const [fullName, test] of baselineTests) {
+    if (!currentTests.has(fullName)) {
+      comparison.removed.push(toEntry(fullName, test, undefined));
+    }
+  }
+
+  comparison.slower.sort(
+    (a, b) =>
+      b.currentRunTime -
+      b.baselineRunTime -
+      (a.currentRunTime - a.baselineRunTime)
+  );
+  return comparison;
+}
+
+/**
+ * Reads a test result written by writeResultFiles in the json format.
+ *
+ * @param filePath path to the test-result-<id>.json file
+ * @returns test result
+ */
+export async function readTestResultFile(
+  filePath: string
+): Promise<TestResult> {
+  let result: TestResult;
+  try {
+    result = JSON.parse(await readFile(filePath, 'utf8'));
+  } catch (e) {
+    throw new Error(nls.localize('invalidTestResultFileErr', filePath));
+  }
+  if (!result?.summary || !Array.isArray(result.tests)) {
+    throw new Error(nls.localize('invalidTestResultFileErr', filePath));
+  }
+  return result;
+}
+
+/**
+ * Compares two test runs, given as test results or as paths to test result
+ * json files.
+ *
+ * @param baseline earlier test run
+ * @param current later test run
+ * @param options thresholds for slower tests
+ * @returns changes from the baseline to the current run
+ */
+export async function compareTestRuns(
+  baseline: TestResult | string,
+  current: TestResult | string,
+  options?: TestRunComparisonOptions
+): Promise<TestRunComparison> {
+  return compareTestResults(
+    typeof baseline === 'string'
+      ? await readTestResultFile(baseline)
+      : baseline,
+    typeof current === 'string' ? await readTestResultFile(current) : current,
+    options
+  );
+}
@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import glob from 'fast-glob';
+import { readFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'path';
+import { nls } from '../i18n';
+import { DiscoveredTestClass, DiscoveredTestMethod, TestItem } from './types';
+
+// comments and string literals, which may contain anything that looks like code
+const COMMENT_OR_STRING_REGEX =
+  /\/\*[\s\S]*?\*\/|\/\/[^\n]*|'(?:\\.|[^'\\\n])*'/g;
+// e.g. @isTest(SeeAllData=true) @SuppressWarnings('PMD')
+const ANNOTATIONS = String.raw`((?:@\w+(?:\s*\([^)]*\))?\s*)*)`;
+const CLASS_REGEX = new RegExp(
+  String.raw`${ANNOTATIONS}((?:\w+\s+)*?)class\s+(\w+)`,
+  'i'
+);
+const METHOD_REGEX = new RegExp(
+  String.raw`${ANNOTATIONS}((?:(?:public|private|protected|global|static|testmethod|override|virtual)\s+)*)\w[\w.<>\[\], ]*?\s+(\w+)\s*\([^)]*\)\s*\{`,
+  'gi'
+);
+const IS_TEST_REGEX = /@isTest\b(?:\s*\(([^)]*)\))?/i;
+
+type SfdxProject = {
+  namespace?: string;
+  packageDirectories?: { path: string }[];
+};
+
+/**
+ * @param source Apex source
+ * @returns the source with comments and string literals blanked out, keeping
+ * the position of every other character
+ */
+export function stripCommentsAndStrings(source: string): string {
+  return source.replace(COMMENT_OR_STRING_REGEX, (match) =>
+    match.replace(/[^\n]/g, ' ')
+  );
+}
+
+function hasAttribute(attributes: string | undefined, name: string): boolean {
+  return new RegExp(String.raw`\b${name}\s*=\s*true\b`, 'i').test(
+    attributes ?? ''
+  );
+}
+
+/**
+ * Finds the test methods of an Apex class, i.e. methods annotated with
+ * @isTest or declared with the testMethod keyword, in a class annotated with
+ * @isTest.
+ *
+ * @param source content of a .cls file
+ * @returns the class name, attributes and test methods, or undefined when the
+ * file is not a test class
+ */
+export function parseApexTestClass(
+  source: string
+): Omit<DiscoveredTestClass, 'filePath'> | undefined {
+  const code = stripCommentsAndStrings(source);
+  const classMatch = CLASS_REGEX.exec(code);
+  const classAnnotation = classMatch ? IS_TEST_REGEX.exec(classMatch[1]) : null;
+  if (!classAnnotation) {
+    return undefined;
+  }
+
+  const body = code.substring(classMatch.index + classMatch[0].length);
+  const testMethods: DiscoveredTestMethod[] = [];
+  for (const [, annotations, modifiers, name] of body.matchAll(METHOD_REGEX)) {
+    const methodAnnotation = IS_TEST_REGEX.exec(annotations);
+    if (!methodAnnotation && !/\btestmethod\b/i.test(modifiers)) {
+      continue;
+    }
+    testMethods.push({
+      name,
+      ...(hasAttribute(methodAnnotation?.[1], 'SeeAllData') && {
+        seeAllData: true
+      })
+    });
+  }
+
+  return {
+    className: classMatch[3],
+    ...(hasAttribute(classAnnotation[1], 'SeeAllData') && {
+      seeAllData: true
+    }),
+    ...(hasAttribute(classAnnotation[1], 'isParallel') && {
+      isParallel: true
+    }),
+    testMethods
+  };
+}
+
+/**
+ * Scans the .cls files of the package directories of an SFDX project for
+ * test classes with at least one test method
+ * @param projectDir directory of the sfdx-project.json file
+ * @returns test classes sorted by name, with the project namespace applied
+ */
+export async function discoverTestClasses(
+  projectDir: string
+): Promise<DiscoveredTestClass[]> {
+  let project: SfdxProject;
+  try {
+    project = JSON.parse(
+      await readFile(join(projectDir, 'sfdx-project.json'), 'utf8')
+    );
+  } catch (e) {
+    throw new Error(nls.localize('missingSfdxProjectErr', projectDir));
+  }
+  if (!Array.isArray(project?.packageDirectories)) {
+    throw new Error(nls.localize('missingSfdxProjectErr', projectDir));
+  }
+
+  const filePaths = (
+    await Promise.all(
+      project.packageDirectories.map((packageDir) =>
+        glob('**/*.cls', {
+          cwd: resolve(projectDir, packageDir.path),
+          absolute: true
+        })
+      )
+    )
+  ).flat();
+
+  const classes: DiscoveredTestClass[] = [];
+  for (const filePath of filePaths) {
+    const testClass = parseApexTestClass(await readFile(filePath, 'utf8'));
+    if (!testClass?.testMethods.length) {
+      continue;
+    }
+    // the file name is the class name the org knows
+    const className = basename(filePath, '.cls');
+    classes.push({
+      ...testClass,
+      className: project.namespace
+        ? `${project.namespace}.${className}`
+        : className,
+      filePath
+    });
+  }
+  return classes.sort((a, b) => a.className.localeCompare(b.className));
+}
+
+/**
+ * Scans an SFDX project for test classes and methods
+ * @param projectDir directory of the sfdx-project.json file
+ * @returns test items for runTestAsynchronous or runTestSynchronous
+ */
+export async function discoverTestItems(
+  projectDir: string
+): Promise<TestItem[]> {
+  return (await discoverTestClasses(projectDir)).map((testClass) => ({
+    className: testClass.className,
+    testMethods: testClass.testMethods.map((method) => method.name)
+  }));
+}
@@ -0,0 +1,221 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'path';
+import {
+  ApexTestResultOutcome,
+  TestHistoryTrendPoint,
+  TestPassRate,
+  TestResult,
+  TestRunHistoryRecord
+} from './types';
+
+const DEFAULT_HISTORY_RUNS = 10;
+
+function toPercentage(value: string | undefined): number | undefined {
+  const percentage = parseFloat(value ?? '');
+  return isNaN(percentage) ? undefined : percentage;
+}
+
+/**
+ * File based store of past test runs, with one JSON file per run in a
+ * directory per org
+ */
+export class TestHistoryStore {
+  public readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Saves the summary, test outcomes and coverage of a test run. Saving the
+   * same run again replaces it.
+   * @param result test result
+   * @returns path of the stored run
+   */
+  public async save(result: TestResult): Promise<string> {
+    const { summary } = result;
+    const record: TestRunHistoryRecord = {
+      orgId: summary.orgId,
+      testRunId:
+        summary.testRunId || `sync-${Date.parse(summary.testStartTime)}`,
+      testStartTime: summary.testStartTime,
+      outcome: summary.outcome,
+      testsRan: summary.testsRan,
+      passing: summary.passing,
+      failing: summary.failing,
+      skipped: summary.skipped,
+      testTotalTimeInMs: summary.testTotalTimeInMs,
+      testRunCoverage: toPercentage(summary.testRunCoverage),
+      orgWideCoverage: toPercentage(summary.orgWideCoverage),
+      tests: result.tests.map((test) => ({
+        fullName: test.fullName,
+        outcome: test.outcome,
+        runTime: test.runTime
+      })),
+      coverage: (result.codecoverage ?? []).map((coverage) => ({
+        name: coverage.name,
+        percentage: toPercentage(coverage.percentage) ?? 0
+      }))
+    };
+
+    const orgDir = path.join(this.rootDir, record.orgId);
+    await mkdir(orgDir, { recursive: true });
+    const runPath = path.join(orgDir, `${record.testRunId}.json`);
+    await writeFile(runPath, JSON.stringify(record, null, 2));
+    return runPath;
+  }
+
+  /**
+   * @param orgId org id
+   * @param limit maximum number of runs
+   * @returns stored runs of the org, most recent first
+   */
+  public async listRuns(
+    orgId: string,
+    limit?: number
+  ): Promise<TestRunHistoryRecord[]> {
+    const orgDir = path.join(this.rootDir, orgId);
+    if (!existsSync(orgDir)) {
+      return [];
+    }
+    const files = (await readdir(orgDir)).filter((file) =>
+      file.endsWith('.json')
+    );
+    const runs = await Promise.all(
+      files.map(
+        async (file) =>
+          JSON.parse(
+            await readFile(path.join(orgDir, file), 'utf8')
+          ) as TestRunHistoryRecord
+      )
+    );
+    runs.sort((a, b) => b.testStartTime.localeCompare(a.testStartTime));
+    return limit !== undefined ? runs.slice(0, limit) : runs;
+  }
+
+  /**
+   * @param orgId org id
+   * @param fullName full name of the test method, e.g. ns.MyTest.testMethod
+   * @param lastRuns number of most recent runs to look at
+   * @returns how often the test passed in those runs
+   */
+  public async getPassRate(
+    orgId: string,
+    fullName: string,
+    lastRuns = DEFAULT_HISTORY_RUNS
+  ): Promise<TestPassRate> {
+    const outcomes = (await this.listRuns(orgId, lastRuns))
+      .map((run) => run.tests.find((test) => test.fullName === fullName))
+      .filter((test) => test)
+      .map((test) => test.outcome);
+    const passed = outcomes.filter(
+      (outcome) => outcome === ApexTestResultOutcome.Pass
+    ).length;
+    const failed = outcomes.filter(
+      (outcome) =>
+        outcome === ApexTestResultOutcome.Fail ||
+        outcome === ApexTestResultOutcome.CompileFail
+    ).length;
+    return {
+      fullName,
+      runs: outcomes.length,
+      passed,
+      failed,
+      passRate: outcomes.length ? passed / outcomes.length : 0
+    };
+  }
+
+  /**
+   * @param orgId org id
+   * @param fullName full name of the test method, or undefined for the total
+   * run time of each test run
+   * @param lastRuns number of most recent runs to look at
+   * @returns run time in each run, oldest first
+   */
+  public async getRuntimeTrend(
+    orgId: string,
+    fullName?: string,
+    lastRuns = DEFAULT_HISTORY_RUNS
+  ): Promise<TestHistoryTrendPoint[]> {
+    return this.getTrend(orgId, lastRuns, (run) =>
+      fullName
+        ? run.tests.find((test) => test.fullName === fullName)?.runTime
+        : run.testTotalTimeInMs
+    );
+  }
+
+  /**
+   * @param orgId org id
+   * @param name name of the Apex class or trigger
+   * @param lastRuns number of most recent runs to look at
+   * @returns coverage percentage in each run that reported it, oldest first
+   */
+  public async getCoverageTrend(
+    orgId: string,
+    name: string,
+    lastRuns = DEFAULT_HISTORY_RUNS
+  ): Promise<TestHistoryTrendPoint[]> {
+    return this.getTrend(
+      orgId,
+      lastRuns,
+      (run) =>
+        run.coverage.find((coverage) => coverage.name === name)?.percentage
+    );
+  }
+
+  /**
+   * @param orgId org id
+   * @param lastRuns number of most recent runs to look at
+   * @returns average run time of each test class, summed over its methods,
+   * keyed by class name including namespace
+   */
+  public async getClassRuntimes(
+    orgId: string,
+    lastRuns = DEFAULT_HISTORY_RUNS
+  ): Promise<{ [className: string]: number }> {
+    const totals = new Map<string, { runTime: number; runs: Set<string> }>();
+    for (const run of await this.listRuns(orgId, lastRuns)) {
+      for (const test of run.tests) {
+        const className = test.fullName.substring(
+          0,
+          test.fullName.lastIndexOf('.')
+        );
+        const total = totals.get(className) ?? {
+          runTime: 0,
+          runs: new Set<string>()
+        };
+        total.runTime += test.runTime;
+        total.runs.add(run.testRunId);
+        totals.set(className, total);
+      }
+    }
+    return Object.fromEntries(
+      [...totals].map(([className, total]) => [
+        className,
+        total.runTime / total.runs.size
+      ])
+    );
+  }
+
+  private async getTrend(
+    orgId: string,
+    lastRuns: number,
+    getValue: (run: TestRunHistoryRecord) => number | undefined
+  ): Promise<TestHistoryTrendPoint[]> {
+    return (await this.listRuns(orgId, lastRuns))
+      .reverse()
+      .map((run) => ({
+        testRunId: run.testRunId,
+        testStartTime: run.testStartTime,
+        value: getValue(run)
+      }))
+      .filter((point) => point.value !== undefined);
+  }
+}
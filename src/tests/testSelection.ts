@@ -0,0 +1,266 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { nls } from '../i18n';
+import { DiscoveredTestClass, TestItem } from './types';
+
+// e.g. /^Account.*Test\.testBulk/i
+const REGEX_PATTERN_REGEX = /^\/(.+)\/([a-z]*)$/;
+
+type TestClassCandidate = Pick<
+  DiscoveredTestClass,
+  'className' | 'testMethods'
+>;
+
+/**
+ * Selects whole classes (true) or some of their methods
+ */
+type Selection = Map<string, true | Set<string>>;
+
+/**
+ * @param name test name or pattern
+ * @returns whether the name is a wildcard pattern or a /regex/
+ */
+export function isTestPattern(name: string): boolean {
+  return /[*?]/.test(name) || REGEX_PATTERN_REGEX.test(name);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  // Apex names are case insensitive
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function selectClass(selection: Selection, className: string): void {
+  selection.set(className, true);
+}
+
+function selectMethod(
+  selection: Selection,
+  className: string,
+  method: string
+): void {
+  const selected = selection.get(className) ?? new Set<string>();
+  if (selected !== true) {
+    selection.set(className, selected.add(method));
+  }
+}
+
+type ParsedPattern =
+  | { regex: RegExp }
+  | {
+      // Class or ns.Class, matching the whole class
+      whole: RegExp;
+      // Class.method or ns.Class.method
+      classPattern?: RegExp;
+      methodPattern?: RegExp;
+    };
+
+function parsePattern(pattern: string): ParsedPattern {
+  const regexMatch = REGEX_PATTERN_REGEX.exec(pattern);
+  if (regexMatch) {
+    try {
+      // global and sticky regexes would keep state between tests
+      return {
+        regex: new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''))
+      };
+    } catch (e) {
+      throw new Error(
+        nls.localize('invalidTestPatternErr', [pattern, e.message])
+      );
+    }
+  }
+
+  const segments = pattern.split('.');
+  return {
+    whole: globToRegExp(pattern),
+    ...(segments.length > 1 && {
+      classPattern: globToRegExp(segments.slice(0, -1).join('.')),
+      methodPattern: globToRegExp(segments[segments.length - 1])
+    })
+  };
+}
+
+function matchesClassName(regex: RegExp, className: string): boolean {
+  const shortName = className.substring(className.lastIndexOf('.') + 1);
+  return regex.test(className) || regex.test(shortName);
+}
+
+/**
+ * Tells from its name alone whether a class may hold tests selected by a
+ * pattern. Regexes can match any Class.method name, so every class may match.
+ *
+ * @param pattern test name or pattern
+ * @param className class name, with namespace when namespaced
+ * @returns whether the class may match
+ */
+export function isTestPatternCandidate(
+  pattern: string,
+  className: string
+): boolean {
+  const parsed = parsePattern(pattern.trim());
+  if ('regex' in parsed) {
+    return true;
+  }
+  return (
+    matchesClassName(parsed.whole, className) ||
+    (!!parsed.classPattern && matchesClassName(parsed.classPattern, className))
+  );
+}
+
+function matchPattern(
+  pattern: string,
+  testClasses: TestClassCandidate[],
+  selection: Selection
+): boolean {
+  let matched = false;
+  const parsed = parsePattern(pattern);
+  if ('regex' in parsed) {
+    for (const { className, testMethods } of testClasses) {
+      if (parsed.regex.test(className)) {
+        selectClass(selection, className);
+        matched = true;
+        continue;
+      }
+      for (const method of testMethods) {
+        if (parsed.regex.test(`${className}.${method.name}`)) {
+          selectMethod(selection, className, method.name);
+          matched = true;
+        }
+      }
+    }
+    return matched;
+  }
+
+  for (const { className, testMethods } of testClasses) {
+    if (matchesClassName(parsed.whole, className)) {
+      selectClass(selection, className);
+      matched = true;
+      continue;
+    }
+    if (
+      !parsed.classPattern ||
+      !matchesClassName(parsed.classPattern, className)
+    ) {
+      continue;
+    }
+    for (const method of testMethods) {
+      if (parsed.methodPattern.test(method.name)) {
+        selectMethod(selection, className, method.name);
+        matched = true;
+      }
+    }
+  }
+  return matched;
+}
+
+/**
+ * Splits a comma separated list of test names and patterns. Commas inside a
+ * /regex/ entry, e.g. /Test{1,3}/, don't split it.
+ *
+ * @param value comma separated test names and patterns
+ * @returns test names and patterns
+ */
+export function splitTestPatterns(value: string): string[] {
+  const patterns: string[] = [];
+  let start = 0;
+  let inRegex = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (inRegex && char === '\\') {
+      i++;
+    } else if (char === '/') {
+      // a regex starts an entry and ends at the next unescaped /
+      inRegex = !inRegex && value.substring(start, i).trim() === '';
+    } else if (char === ',' && !inRegex) {
+      patterns.push(value.substring(start, i));
+      start = i + 1;
+    }
+  }
+  patterns.push(value.substring(start));
+  return patterns;
+}
+
+/**
+ * Combines test items naming the same class. A whole class wins over some of
+ * its methods, and the methods of several items are merged.
+ *
+ * @param testItems test items, possibly naming a class more than once
+ * @returns one test item per class, in the order of their first item
+ */
+export function mergeTestItems(testItems: TestItem[]): TestItem[] {
+  const merged = new Map<string, TestItem>();
+  const others: TestItem[] = [];
+  for (const item of testItems) {
+    if (!item.className) {
+      others.push(item);
+      continue;
+    }
+    const existing = merged.get(item.className);
+    if (!existing) {
+      merged.set(item.className, { ...item });
+    } else if (!existing.testMethods || !item.testMethods) {
+      delete existing.testMethods;
+    } else {
+      existing.testMethods = [
+        ...new Set([...existing.testMethods, ...item.testMethods])
+      ];
+    }
+  }
+  return [...merged.values(), ...others];
+}
+
+/**
+ * Resolves test selection patterns against known test classes. A pattern is
+ * either a /regex/, tested against class names and Class.method names, or a
+ * name where * matches any characters and ? a single one, e.g. Account*Test
+ * or *Service*Test.testBulk*. Names match with or without namespace. A /
+ * inside a regex is escaped as \/.
+ *
+ * @param patterns test names and patterns
+ * @param testClasses test classes and their test methods
+ * @returns test items of the selected classes and methods
+ */
+export function selectTests(
+  patterns: string[],
+  testClasses: TestClassCandidate[]
+): TestItem[] {
+  const selection: Selection = new Map();
+  const unmatched = patterns.filter(
+    (pattern) => !matchPattern(pattern.trim(), testClasses, selection)
+  );
+  if (unmatched.length) {
+    throw new Error(
+      nls.localize('testPatternsNoMatchErr', unmatched.join(', '))
+    );
+  }
+
+  return testClasses
+    .filter(({ className }) => selection.has(className))
+    .map(({ className, testMethods }) => {
+      const selected = selection.get(className);
+      return selected === true
+        ? { className }
+        : {
+            className,
+            // keep the order of the methods in the class
+            testMethods: testMethods
+              .map((method) => method.name)
+              .filter((name) => selected.has(name))
+          };
+    });
+}
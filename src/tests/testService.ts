@@ -9,15 +9,21 @@ import {
   ApexTestProgressValue,
   AsyncTestArrayConfiguration,
   AsyncTestConfiguration,
+  AsyncTestRunOptions,
   NamespaceInfo,
   OutputDirConfig,
   ResultFormat,
+  StabilityReport,
   SyncTestConfiguration,
+  TestImpactChange,
+  TestImpactResult,
   TestItem,
   TestLevel,
+  TestRepeatConfiguration,
   TestResult,
   TestRunIdResult,
-  TestSuiteMembershipRecord
+  TestSuiteMembershipRecord,
+  TestSuiteSyncResult
 } from './types';
 import { join } from 'path';
 import { CancellationToken, Progress } from '../common';
@@ -31,16 +37,29 @@ import {
   getBufferSize,
   getJsonIndent,
   isFlowTest,
+  queryAll,
   queryNamespaces
 } from './utils';
 import { AsyncTests } from './asyncTests';
+import { CodeCoverage } from './codeCoverage';
+import { QUERY_RECORD_LIMIT } from './constants';
 import { SyncTests } from './syncTests';
 import { formatTestErrors } from './diagnosticUtil';
+import { buildStabilityReport } from './stability';
+import { readTestSuiteFile, writeTestSuiteFile } from './testSuiteMetadata';
+import { discoverTestClasses, parseApexTestClass } from './testDiscovery';
+import {
+  isTestPattern,
+  isTestPatternCandidate,
+  mergeTestItems,
+  selectTests,
+  splitTestPatterns
+} from './testSelection';
 import { QueryResult } from '../utils/types';
 import { mkdir, writeFile } from 'node:fs/promises';
 import { Readable, Writable } from 'node:stream';
 import { TestResultStringifyStream } from '../streaming';
-import { elapsedTime, HeapMonitor } from '../utils';
+import { elapsedTime, HeapMonitor, toSoqlList } from '../utils';
 import { isTestResult, isValidApexClassID } from '../narrowing';
 import { Duration } from '@salesforce/kit';
 import { Transform } from 'stream';
@@ -346,6 +365,175 @@ export class TestService {
     );
   }
 
+  /**
+   * Removes the given test classes from a test suite
+   * @param suitename name of suite
+   * @param testClasses Apex class names
+   */
+  @elapsedTime()
+  public async removeFromSuite(
+    suitename: string,
+    testClasses: string[]
+  ): Promise<void> {
+    const testSuiteId = await this.getExistingSuiteId(suitename);
+    const members = await this.getSuiteMembers(testSuiteId);
+    const testClassIds = await this.getApexClassIds(testClasses);
+
+    await Promise.all(
+      testClassIds.map(async (classId, index) => {
+        const member = members.find((m) => m.classId === classId);
+        if (!member) {
+          console.log(
+            nls.localize('classNotInSuiteMsg', [testClasses[index], suitename])
+          );
+          return;
+        }
+        await this.connection.tooling.destroy(
+          'TestSuiteMembership',
+          member.membershipId
+        );
+        console.log(
+          nls.localize('classRemovedFromSuiteMsg', [
+            testClasses[index],
+            suitename
+          ])
+        );
+      })
+    );
+  }
+
+  /**
+   * Deletes a test suite. The test classes are not deleted.
+   * @param suitename name of suite
+   */
+  @elapsedTime()
+  public async deleteSuite(suitename: string): Promise<void> {
+    const testSuiteId = await this.getExistingSuiteId(suitename);
+    await this.connection.tooling.destroy('ApexTestSuite', testSuiteId);
+  }
+
+  /**
+   * Renames a test suite, keeping its test classes
+   * @param suitename current name of suite
+   * @param newSuitename new name of suite
+   */
+  @elapsedTime()
+  public async renameSuite(
+    suitename: string,
+    newSuitename: string
+  ): Promise<void> {
+    const testSuiteId = await this.getExistingSuiteId(suitename);
+    if ((await this.retrieveSuiteId(newSuitename)) !== undefined) {
+      throw new Error(nls.localize('suiteExistsErr', newSuitename));
+    }
+    await this.connection.tooling.update('ApexTestSuite', {
+      Id: testSuiteId,
+      TestSuiteName: newSuitename
+    });
+  }
+
+  /**
+   * Writes a test suite of the org to a name.testSuite-meta.xml file
+   * @param suitename name of suite
+   * @param dirPath directory of the file
+   * @returns path of the written file
+   */
+  @elapsedTime()
+  public async exportSuite(
+    suitename: string,
+    dirPath: string
+  ): Promise<string> {
+    const testSuiteId = await this.getExistingSuiteId(suitename);
+    const members = await this.getSuiteMembers(testSuiteId);
+    return writeTestSuiteFile(dirPath, {
+      suiteName: suitename,
+      testClassNames: members.map((member) => member.className).sort()
+    });
+  }
+
+  /**
+   * Makes the org's test suite match a name.testSuite-meta.xml file, creating
+   * the suite when it does not exist, adding the classes missing from the org
+   * and removing the classes missing from the file
+   * @param filePath path to the test suite metadata file
+   * @returns added and removed test classes
+   */
+  @elapsedTime()
+  public async syncSuite(filePath: string): Promise<TestSuiteSyncResult> {
+    const { suiteName, testClassNames } = await readTestSuiteFile(filePath);
+    // every class must exist before the suite is changed
+    const testClassIds = await this.getApexClassIds(testClassNames);
+    const testClasses = testClassIds
+      .map((classId, index) => ({ classId, name: testClassNames[index] }))
+      .filter(({ classId }, index) => testClassIds.indexOf(classId) === index);
+
+    const existingSuiteId = await this.retrieveSuiteId(suiteName);
+    const testSuiteId =
+      existingSuiteId ?? (await this.getOrCreateSuiteIds([suiteName]))[0];
+    const members =
+      existingSuiteId !== undefined
+        ? await this.getSuiteMembers(testSuiteId)
+        : [];
+
+    const missingClasses = testClasses.filter(
+      ({ classId }) => !members.some((m) => m.classId === classId)
+    );
+    const removedMembers = members.filter(
+      (member) => !testClassIds.includes(member.classId)
+    );
+
+    await Promise.all([
+      ...missingClasses.map(({ classId }) =>
+        this.connection.tooling.create('TestSuiteMembership', {
+          ApexClassId: classId,
+          ApexTestSuiteId: testSuiteId
+        })
+      ),
+      ...removedMembers.map((member) =>
+        this.connection.tooling.destroy(
+          'TestSuiteMembership',
+          member.membershipId
+        )
+      )
+    ]);
+
+    return {
+      suiteName,
+      created: existingSuiteId === undefined,
+      added: missingClasses.map(({ name }) => name),
+      removed: removedMembers.map((member) => member.className)
+    };
+  }
+
+  private async getExistingSuiteId(suitename: string): Promise<string> {
+    const testSuiteId = await this.retrieveSuiteId(suitename);
+    if (testSuiteId === undefined) {
+      throw new Error(nls.localize('missingSuiteErr'));
+    }
+    return testSuiteId;
+  }
+
+  @elapsedTime()
+  private async getSuiteMembers(
+    testSuiteId: string
+  ): Promise<{ membershipId: string; classId: string; className: string }[]> {
+    const memberRecords = (await this.connection.tooling.query(
+      `SELECT Id, ApexClassId, ApexClass.Name, ApexClass.NamespacePrefix FROM TestSuiteMembership WHERE ApexTestSuiteId = '${testSuiteId}'`
+    )) as QueryResult<{
+      Id: string;
+      ApexClassId: string;
+      ApexClass: { Name: string; NamespacePrefix: string | null };
+    }>;
+
+    return memberRecords.records.map((record) => ({
+      membershipId: record.Id,
+      classId: record.ApexClassId,
+      className: record.ApexClass.NamespacePrefix
+        ? `${record.ApexClass.NamespacePrefix}.${record.ApexClass.Name}`
+        : record.ApexClass.Name
+    }));
+  }
+
   /**
    * Synchronous Test Runs
    * @param options Synchronous Test Runs configuration
@@ -374,6 +562,8 @@ export class TestService {
    * @param progress progress reporter
    * @param token cancellation token
    * @param timeout
+   * @param interval polling frequency
+   * @param runOptions options for gathering the test results, e.g. reporting governor limit usage
    */
   @elapsedTime()
   public async runTestAsynchronous(
@@ -383,7 +573,8 @@ export class TestService {
     progress?: Progress<ApexTestProgressValue>,
     token?: CancellationToken,
     timeout?: Duration,
-    interval?: Duration
+    interval?: Duration,
+    runOptions?: AsyncTestRunOptions
   ): Promise<TestResult | TestRunIdResult> {
     HeapMonitor.getInstance().startMonitoring();
     try {
@@ -394,13 +585,79 @@ export class TestService {
         progress,
         token,
         timeout,
-        interval
+        interval,
+        runOptions
       );
     } finally {
       HeapMonitor.getInstance().stopMonitoring();
     }
   }
 
+  /**
+   * Runs the same tests several times, one asynchronous run after the other,
+   * and reports how often each test method passed and failed
+   * @param options tests and number of iterations
+   * @param progress progress reporter
+   * @param token cancellation token
+   * @param timeout Duration to wait for each run
+   * @param interval polling frequency
+   * @returns pass and fail counts and run time statistics of each test method
+   */
+  @elapsedTime()
+  public async runTestsRepeatedly(
+    options: TestRepeatConfiguration,
+    progress?: Progress<ApexTestProgressValue>,
+    token?: CancellationToken,
+    timeout?: Duration,
+    interval?: Duration
+  ): Promise<StabilityReport> {
+    if (!Number.isInteger(options.iterations) || options.iterations < 1) {
+      throw new Error(
+        nls.localize('invalidRepeatIterationsErr', String(options.iterations))
+      );
+    }
+
+    const results: TestResult[] = [];
+    for (let i = 0; i < options.iterations; i++) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+      const result = await this.runTestAsynchronous(
+        {
+          tests: options.tests,
+          testLevel: TestLevel.RunSpecifiedTests,
+          skipCodeCoverage: true
+        },
+        false,
+        false,
+        progress,
+        token,
+        timeout,
+        interval
+      );
+      // a run that timed out or was cancelled has no results to aggregate
+      if (!result || !isTestResult(result)) {
+        break;
+      }
+      results.push(result);
+    }
+    return buildStabilityReport(results, options.iterations);
+  }
+
+  /**
+   * Selects the test methods that exercise changed Apex classes and triggers,
+   * based on the code coverage stored in the org by previous test runs
+   * @param changes changed classes and triggers, optionally with line ranges
+   * @returns test items to pass to runTestAsynchronous, and the changes no
+   * test covers
+   */
+  @elapsedTime()
+  public async getImpactedTests(
+    changes: TestImpactChange[]
+  ): Promise<TestImpactResult> {
+    return new CodeCoverage(this.connection).getImpactedTests(changes);
+  }
+
   /**
    * Report Asynchronous Test Run Results
    * @param testRunId test run id
@@ -534,6 +791,36 @@ export class TestService {
     skipCodeCoverage = false
   ): Promise<AsyncTestConfiguration | AsyncTestArrayConfiguration> {
     try {
+      const entries = splitTestPatterns(tests ?? classNames ?? '');
+      if (entries.some(isTestPattern) && !this.hasCategory(category)) {
+        // exact names keep the usual lookup, e.g. for managed package
+        // classes whose body is hidden
+        const exactNames = entries
+          .filter((entry) => !isTestPattern(entry))
+          .join(',');
+        let exactItems: TestItem[] = [];
+        if (exactNames && tests) {
+          exactItems = (
+            (await this.buildTestPayload(
+              exactNames,
+              skipCodeCoverage
+            )) as AsyncTestArrayConfiguration
+          ).tests;
+        } else if (exactNames) {
+          exactItems = this.buildAsyncClassPayload(
+            exactNames,
+            skipCodeCoverage
+          ).tests;
+        }
+        return {
+          tests: mergeTestItems([
+            ...(await this.resolveTestPatterns(entries.filter(isTestPattern))),
+            ...exactItems
+          ]),
+          testLevel: TestLevel.RunSpecifiedTests,
+          skipCodeCoverage
+        };
+      }
       if (tests) {
         return (await this.buildTestPayload(
           tests,
@@ -560,6 +847,83 @@ export class TestService {
     }
   }
 
+  /**
+   * Resolves test selection patterns, e.g. Account*Test,
+   * *Service*Test.testBulk* or a /regex/, into the matching test classes and
+   * methods
+   * @param patterns test names and patterns
+   * @param projectDir SFDX project to scan for tests. The test classes of the
+   * org are read when left out.
+   * @returns test items of the selected classes and methods
+   */
+  @elapsedTime()
+  public async resolveTestPatterns(
+    patterns: string[],
+    projectDir?: string
+  ): Promise<TestItem[]> {
+    const testClasses = projectDir
+      ? await discoverTestClasses(projectDir)
+      : await this.getOrgTestClasses(patterns);
+    return selectTests(patterns, testClasses);
+  }
+
+  /**
+   * Reads the test classes and methods from the body of the org's Apex
+   * classes whose name may match the patterns. Classes whose body is hidden,
+   * e.g. in managed packages, are left out.
+   */
+  @elapsedTime()
+  private async getOrgTestClasses(
+    patterns: string[]
+  ): Promise<{ className: string; testMethods: { name: string }[] }[]> {
+    const apexClasses = await queryAll<{
+      Id: string;
+      Name: string;
+      NamespacePrefix: string | null;
+    }>(
+      this.connection,
+      'SELECT Id, Name, NamespacePrefix FROM ApexClass',
+      true
+    );
+    const candidates = new Map<string, string>();
+    for (const record of apexClasses.records) {
+      const className = record.NamespacePrefix
+        ? `${record.NamespacePrefix}.${record.Name}`
+        : record.Name;
+      if (
+        patterns.some((pattern) => isTestPatternCandidate(pattern, className))
+      ) {
+        candidates.set(record.Id, className);
+      }
+    }
+
+    // only the bodies of the candidates are downloaded
+    const ids = [...candidates.keys()];
+    const testClasses: {
+      className: string;
+      testMethods: { name: string }[];
+    }[] = [];
+    for (let i = 0; i < ids.length; i += QUERY_RECORD_LIMIT) {
+      const bodies = await queryAll<{ Id: string; Body: string }>(
+        this.connection,
+        `SELECT Id, Body FROM ApexClass WHERE Id IN ${toSoqlList(
+          ids.slice(i, i + QUERY_RECORD_LIMIT)
+        )}`,
+        true
+      );
+      for (const record of bodies.records) {
+        const testClass = parseApexTestClass(record.Body ?? '');
+        if (testClass) {
+          testClasses.push({
+            className: candidates.get(record.Id),
+            testMethods: testClass.testMethods
+          });
+        }
+      }
+    }
+    return testClasses.sort((a, b) => a.className.localeCompare(b.className));
+  }
+
   @elapsedTime()
   private buildSyncClassPayload(
     className: string,
@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join } from 'path';
+import { nls } from '../i18n';
+import { TestSuiteDefinition } from './types';
+
+export const TEST_SUITE_FILE_SUFFIX = '.testSuite-meta.xml';
+
+const TEST_CLASS_NAME_REGEX = /<testClassName>\s*([^<]*?)\s*<\/testClassName>/g;
+
+const xmlEntities: { [entity: string]: string } = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'"
+};
+
+const xmlEscapes: { [char: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;'
+};
+
+/**
+ * @param testClassNames names of the test classes in the suite
+ * @returns ApexTestSuite metadata listing the test classes in the given order
+ */
+export function buildTestSuiteMetadata(testClassNames: string[]): string {
+  const entries = testClassNames.map(
+    (name) =>
+      `    <testClassName>${name.replace(/[&<>"']/g, (char) => xmlEscapes[char])}</testClassName>\n`
+  );
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<ApexTestSuite xmlns="http://soap.sforce.com/2006/04/metadata">\n' +
+    entries.join('') +
+    '</ApexTestSuite>\n'
+  );
+}
+
+/**
+ * Reads a test suite from an ApexTestSuite metadata file. The suite name is
+ * the file name without the .testSuite-meta.xml suffix.
+ *
+ * @param filePath path to the name.testSuite-meta.xml file
+ * @returns suite name and test class names
+ */
+export async function readTestSuiteFile(
+  filePath: string
+): Promise<TestSuiteDefinition> {
+  const fileName = basename(filePath);
+  if (!fileName.endsWith(TEST_SUITE_FILE_SUFFIX)) {
+    throw new Error(nls.localize('invalidTestSuiteFileErr', filePath));
+  }
+  const content = await readFile(filePath, 'utf8');
+  if (!content.includes('<ApexTestSuite')) {
+    throw new Error(nls.localize('invalidTestSuiteFileErr', filePath));
+  }
+  return {
+    suiteName: fileName.slice(0, -TEST_SUITE_FILE_SUFFIX.length),
+    testClassNames: [...content.matchAll(TEST_CLASS_NAME_REGEX)].map((match) =>
+      match[1].replace(
+        /&(amp|lt|gt|quot|apos);/g,
+        (entity) => xmlEntities[entity]
+      )
+    )
+  };
+}
+
+/**
+ * Writes a test suite as an ApexTestSuite metadata file
+ * @param dirPath directory of the file, e.g. force-app/main/default/testSuites
+ * @param suite suite name and test class names
+ * @returns path of the written file
+ */
+export async function writeTestSuiteFile(
+  dirPath: string,
+  suite: TestSuiteDefinition
+): Promise<string> {
+  await mkdir(dirPath, { recursive: true });
+  const filePath = join(dirPath, `${suite.suiteName}${TEST_SUITE_FILE_SUFFIX}`);
+  await writeFile(filePath, buildTestSuiteMetadata(suite.testClassNames));
+  return filePath;
+}
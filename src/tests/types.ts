@@ -6,6 +6,7 @@
  */
 
 import { ApexDiagnostic } from '../utils';
+import { NamespaceLimitUsage } from '../logs/types';
 
 export const enum TestLevel {
   /**
@@ -81,6 +82,246 @@ export type AsyncTestConfiguration = {
   category?: string[];
 };
 
+/**
+ * Options that control how the results of an asynchronous test run are gathered
+ */
+export type AsyncTestRunOptions = {
+  /**
+   * Attach the governor limit usage found in each test's debug log. Only tests
+   * that ran while debug logging was enabled have a log.
+   */
+  reportLimits?: boolean;
+  /**
+   * Number of times failed Apex test methods are run again. A test that passes
+   * on a later attempt is marked as flaky instead of failing. Defaults to 0.
+   */
+  retryFailedTests?: number;
+  /**
+   * Rerun each failed test method in its own test run, one after the other,
+   * instead of all of them in a single run
+   */
+  retrySerially?: boolean;
+};
+
+export type TestRepeatConfiguration = {
+  tests: TestItem[];
+  /**
+   * Number of times the tests are run, one run after the other
+   */
+  iterations: number;
+};
+
+/**
+ * Outcomes and run time of a test method across repeated runs
+ */
+export type TestMethodStability = {
+  fullName: string;
+  className: string;
+  methodName: string;
+  runs: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /**
+   * Mean of the run time of the test method across runs
+   */
+  meanRunTime: number;
+  /**
+   * Standard deviation of the run time of the test method across runs
+   */
+  runTimeStdDev: number;
+  /**
+   * The test method both passed and failed
+   */
+  nondeterministic: boolean;
+};
+
+export type StabilityReport = {
+  iterations: number;
+  /**
+   * Runs that completed, fewer than iterations when the repeat was cancelled
+   * or a run timed out
+   */
+  completedIterations: number;
+  testRunIds: string[];
+  /**
+   * Nondeterministic test methods first, then by full name
+   */
+  tests: TestMethodStability[];
+};
+
+/**
+ * Test run as kept in the test history store
+ */
+export type TestRunHistoryRecord = {
+  orgId: string;
+  testRunId: string;
+  testStartTime: string;
+  outcome: string;
+  testsRan: number;
+  passing: number;
+  failing: number;
+  skipped: number;
+  testTotalTimeInMs: number;
+  /**
+   * Coverage of the classes covered by the run, as a number, e.g. 85 for 85%
+   */
+  testRunCoverage?: number;
+  orgWideCoverage?: number;
+  tests: {
+    fullName: string;
+    outcome: ApexTestResultOutcome;
+    runTime: number;
+  }[];
+  /**
+   * Coverage percentage of each class or trigger, as a number
+   */
+  coverage: { name: string; percentage: number }[];
+};
+
+export type TestPassRate = {
+  fullName: string;
+  /**
+   * Runs among the queried ones that included the test
+   */
+  runs: number;
+  passed: number;
+  failed: number;
+  /**
+   * Share of the runs that passed, between 0 and 1
+   */
+  passRate: number;
+};
+
+export type TestHistoryTrendPoint = {
+  testRunId: string;
+  testStartTime: string;
+  value: number;
+};
+
+export type TestRunComparisonOptions = {
+  /**
+   * Minimum runtime increase, in percent of the baseline runtime, for a test
+   * to be reported as slower. Defaults to 50.
+   */
+  slowerThresholdPercent?: number;
+  /**
+   * Minimum runtime increase, in milliseconds, for a test to be reported as
+   * slower. Defaults to 100.
+   */
+  slowerThresholdMs?: number;
+};
+
+export type TestComparisonEntry = {
+  fullName: string;
+  baselineOutcome?: ApexTestResultOutcome;
+  currentOutcome?: ApexTestResultOutcome;
+  baselineRunTime?: number;
+  currentRunTime?: number;
+};
+
+export type CoverageDelta = {
+  name: string;
+  /**
+   * Undefined when the class or trigger is not covered by that run
+   */
+  baselinePercentage?: number;
+  currentPercentage?: number;
+  /**
+   * Change in percentage points, a class missing from a run counting as 0
+   */
+  delta: number;
+};
+
+export type TestRunComparison = {
+  baselineTestRunId: string;
+  currentTestRunId: string;
+  newlyFailing: TestComparisonEntry[];
+  newlyPassing: TestComparisonEntry[];
+  stillFailing: TestComparisonEntry[];
+  added: TestComparisonEntry[];
+  removed: TestComparisonEntry[];
+  slower: TestComparisonEntry[];
+  /**
+   * Classes and triggers whose coverage changed, largest drop first
+   */
+  coverageDeltas: CoverageDelta[];
+};
+
+export type TestImpactChange = {
+  /**
+   * Name of the changed Apex class or trigger, without namespace
+   */
+  name: string;
+  /**
+   * Changed line ranges, inclusive. When left out, any test method covering
+   * the class or trigger is impacted.
+   */
+  lines?: { start: number; end: number }[];
+};
+
+export type TestImpactResult = {
+  /**
+   * Test methods to run, grouped by test class, ready for runTestAsynchronous
+   */
+  testItems: TestItem[];
+  /**
+   * Changed classes and triggers whose changed lines no test method covers
+   */
+  untestedChanges: string[];
+};
+
+export type ShardedTestRunOptions = {
+  codeCoverage?: boolean;
+  /**
+   * Run time of each test class in ms, e.g. from
+   * TestHistoryStore.getClassRuntimes, used to balance the shards. Shards are
+   * balanced by number of classes when left out.
+   */
+  classRuntimes?: { [className: string]: number };
+};
+
+export type TestShard = {
+  username: string;
+  tests: TestItem[];
+  /**
+   * Undefined when the run was cancelled before it started or failed
+   */
+  testRunId?: string;
+  /**
+   * False when the run timed out, was cancelled or failed
+   */
+  completed: boolean;
+  /**
+   * Error message of a failed run
+   */
+  error?: string;
+};
+
+export type ShardedTestResult = {
+  shards: TestShard[];
+  /**
+   * Merged result of the completed shards, undefined when none completed
+   */
+  result?: TestResult;
+};
+
+export type DiscoveredTestMethod = {
+  name: string;
+  seeAllData?: boolean;
+};
+
+export type DiscoveredTestClass = {
+  /**
+   * Class name, {@code ns.Name} when the project has a namespace
+   */
+  className: string;
+  filePath: string;
+  seeAllData?: boolean;
+  isParallel?: boolean;
+  testMethods: DiscoveredTestMethod[];
+};
+
 export enum ResultFormat {
   junit = 'junit',
   tap = 'tap',
@@ -448,6 +689,18 @@ export type ApexTestResultData = {
    * The category of the test (Apex or Flow)
    */
   category?: string;
+  /**
+   * Governor limit usage per namespace, read from the test's debug log
+   */
+  limitUsage?: NamespaceLimitUsage[];
+  /**
+   * Number of times the test ran, when failed tests are rerun
+   */
+  attempts?: number;
+  /**
+   * The test failed, then passed on a later attempt
+   */
+  flaky?: boolean;
 };
 
 export type ApexTestResultDataRaw = ApexTestResultData & {
@@ -522,6 +775,10 @@ export type TestResultRaw = {
     orgWideCoverage?: string;
     totalLines?: number;
     coveredLines?: number;
+    /**
+     * Number of tests that passed only after a rerun, when failed tests are rerun
+     */
+    flaky?: number;
   };
   tests: ApexTestResultDataRaw[];
   codecoverage?: CodeCoverageResult[];
@@ -542,6 +799,27 @@ export type ApexCodeCoverageRecord = {
   };
 };
 
+export type ApexTestImpactRecord = {
+  ApexTestClass: {
+    Name: string;
+    NamespacePrefix: string | null;
+  };
+  ApexClassOrTrigger: {
+    Name: string;
+  };
+  TestMethodName: string;
+  Coverage?: {
+    coveredLines: number[];
+    uncoveredLines: number[];
+  };
+};
+
+export type ApexTestImpact = {
+  done: boolean;
+  totalSize: number;
+  records: ApexTestImpactRecord[];
+};
+
 export type ApexCodeCoverage = {
   done: boolean;
   totalSize: number;
@@ -624,3 +902,21 @@ export type ApexTestProgressValue =
     };
 
 export type TestSuiteMembershipRecord = { ApexClassId: string };
+
+export type TestSuiteDefinition = {
+  suiteName: string;
+  /**
+   * Apex class names, {@code ns.Name} for namespaced classes
+   */
+  testClassNames: string[];
+};
+
+export type TestSuiteSyncResult = {
+  suiteName: string;
+  /**
+   * Whether the suite did not exist in the org and was created
+   */
+  created: boolean;
+  added: string[];
+  removed: string[];
+};
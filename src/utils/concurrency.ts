@@ -0,0 +1,37 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { nls } from '../i18n';
+
+/**
+ * Maps items with an async function, running at most `limit` calls at a time.
+ * Results keep the order of the items.
+ * @param items items to map
+ * @param limit maximum number of concurrent calls
+ * @param mapper async function called for each item
+ * @returns mapped items
+ * @throws when the limit is not a positive integer
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(nls.localize('concurrency_invalid_limit', String(limit)));
+  }
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+  const workerCount = Math.min(limit, items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { promises as fs } from 'fs';
+import { nls } from '../i18n';
+import {
+  DebugLevelCategories,
+  DebugLevelChange,
+  DebugLevelDefinition,
+  LogCategoryLevel
+} from './types';
+
+export const DEBUG_LEVEL_CATEGORIES: (keyof DebugLevelCategories)[] = [
+  'ApexCode',
+  'ApexProfiling',
+  'Callout',
+  'Database',
+  'System',
+  'Validation',
+  'Visualforce',
+  'Workflow',
+  'Wave',
+  'Nba'
+];
+
+export const LOG_CATEGORY_LEVELS: LogCategoryLevel[] = [
+  'NONE',
+  'ERROR',
+  'WARN',
+  'INFO',
+  'DEBUG',
+  'FINE',
+  'FINER',
+  'FINEST'
+];
+
+function toDefinition(
+  developerName: unknown,
+  levels: unknown,
+  filePath: string
+): DebugLevelDefinition {
+  if (
+    typeof developerName !== 'string' ||
+    !developerName ||
+    typeof levels !== 'object' ||
+    levels === null
+  ) {
+    throw new Error(nls.localize('debug_levels_invalid_file', filePath));
+  }
+
+  const definition: DebugLevelDefinition = { developerName, levels: {} };
+  for (const [category, level] of Object.entries(levels)) {
+    const knownCategory = DEBUG_LEVEL_CATEGORIES.find(
+      (c) => c.toLowerCase() === category.toLowerCase()
+    );
+    const knownLevel = LOG_CATEGORY_LEVELS.find(
+      (l) => typeof level === 'string' && l === level.toUpperCase()
+    );
+    if (!knownCategory || !knownLevel) {
+      throw new Error(
+        nls.localize('debug_levels_invalid_level', [
+          developerName,
+          category,
+          String(level)
+        ])
+      );
+    }
+    definition.levels[knownCategory] = knownLevel;
+  }
+  return definition;
+}
+
+/**
+ * Reads debug level definitions from a JSON file. The file holds either an
+ * array of definitions, e.g. [{"developerName": "Team", "levels": {"ApexCode":
+ * "FINEST"}}], or an object of levels keyed by developer name, e.g.
+ * {"Team": {"ApexCode": "FINEST"}}.
+ *
+ * @param filePath path to the JSON file
+ * @returns debug level definitions
+ */
+export async function loadDebugLevelDefinitions(
+  filePath: string
+): Promise<DebugLevelDefinition[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch (e) {
+    if (e.code === 'ENOENT') {
+      throw new Error(nls.localize('debug_levels_file_not_found', filePath));
+    }
+    throw e;
+  }
+  let content: unknown;
+  try {
+    content = JSON.parse(text);
+  } catch (e) {
+    throw new Error(nls.localize('debug_levels_invalid_file', filePath));
+  }
+
+  if (Array.isArray(content)) {
+    return content.map((entry) =>
+      toDefinition(entry?.developerName, entry?.levels, filePath)
+    );
+  }
+  if (typeof content === 'object' && content !== null) {
+    return Object.entries(content).map(([developerName, levels]) =>
+      toDefinition(developerName, levels, filePath)
+    );
+  }
+  throw new Error(nls.localize('debug_levels_invalid_file', filePath));
+}
+
+/**
+ * Compares the categories set in a definition with the levels of a debug
+ * level. Categories left out of the definition are not compared.
+ *
+ * @param definition local debug level definition
+ * @param orgLevels levels of the org's debug level
+ * @returns categories whose level differs
+ */
+export function diffDebugLevels(
+  definition: DebugLevelDefinition,
+  orgLevels: DebugLevelCategories
+): DebugLevelChange[] {
+  return DEBUG_LEVEL_CATEGORIES.filter(
+    (category) =>
+      definition.levels[category] !== undefined &&
+      definition.levels[category] !== orgLevels[category]
+  ).map((category) => ({
+    category,
+    localLevel: definition.levels[category],
+    orgLevel: orgLevels[category]
+  }));
+}
@@ -6,9 +6,33 @@
  */
 
 export { createFile } from './fileSystemHandler';
-export { ApexDiagnostic, CommonOptions, Row } from './types';
+export {
+  ApexDiagnostic,
+  CommonOptions,
+  DebugLevelApplyResult,
+  DebugLevelCategories,
+  DebugLevelChange,
+  DebugLevelDefinition,
+  DebugLevelDiff,
+  LogCategoryLevel,
+  Row,
+  TracedEntity,
+  TraceFlagInfo,
+  TraceFlagListOptions,
+  TraceFlagLogType,
+  TraceFlagOptions
+} from './types';
 export { Table } from './table';
 export { getCurrentTime, formatStartTime, msToSecond } from './dateUtil';
 export { refreshAuth } from './authUtil';
 export { elapsedTime } from './elapsedTime';
 export { HeapMonitor } from './heapMonitor';
+export { mapWithConcurrency } from './concurrency';
+export { escapeSoqlString, toSoqlDateTime, toSoqlList } from './soqlUtil';
+export {
+  DEBUG_LEVEL_CATEGORIES,
+  LOG_CATEGORY_LEVELS,
+  diffDebugLevels,
+  loadDebugLevelDefinitions
+} from './debugLevels';
+export { TraceFlags } from './traceFlags';
@@ -0,0 +1,37 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { nls } from '../i18n';
+
+/**
+ * Escapes a value for use inside a quoted SOQL string literal
+ * @param value raw value
+ * @returns escaped value, without the surrounding quotes
+ */
+export function escapeSoqlString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * @param values raw values
+ * @returns a SOQL list of quoted values, e.g. ('a','b')
+ */
+export function toSoqlList(values: string[]): string {
+  return `(${values.map((value) => `'${escapeSoqlString(value)}'`).join(',')})`;
+}
+
+/**
+ * @param date date, or a string parsable as a date
+ * @returns a SOQL datetime literal, e.g. 2024-01-31T12:00:00Z
+ * @throws when the date is invalid
+ */
+export function toSoqlDateTime(date: Date | string): string {
+  const value = new Date(date);
+  if (isNaN(value.getTime())) {
+    throw new Error(nls.localize('soql_invalid_datetime', String(date)));
+  }
+  return value.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
@@ -14,12 +14,41 @@ import {
 import {
   IdRecord,
   DataRecordResult,
+  DebugLevelApplyResult,
+  DebugLevelCategories,
+  DebugLevelDefinition,
+  DebugLevelDiff,
   QueryRecords,
+  TracedEntity,
+  TraceFlagInfo,
+  TraceFlagListOptions,
+  TraceFlagLogType,
+  TraceFlagOptions,
   TraceFlagRecord
 } from './types';
 import { MILLISECONDS_PER_MINUTE } from './dateUtil';
 import { escapeXml } from './authUtil';
 import { elapsedTime } from './elapsedTime';
+import { escapeSoqlString, toSoqlList } from './soqlUtil';
+import { DEBUG_LEVEL_CATEGORIES, diffDebugLevels } from './debugLevels';
+
+const MAX_TRACE_FLAG_WINDOW_MILLISECONDS = 24 * 60 * MILLISECONDS_PER_MINUTE;
+
+type DebugLevelRecord = DebugLevelCategories & {
+  Id: string;
+  DeveloperName: string;
+};
+
+type TraceFlagDetailRecord = {
+  Id: string;
+  LogType: TraceFlagLogType;
+  TracedEntityId: string;
+  TracedEntity?: { Name: string };
+  StartDate: string | null;
+  ExpirationDate: string;
+  DebugLevelId: string;
+  DebugLevel: DebugLevelCategories & { DeveloperName: string };
+};
 
 export class TraceFlags {
   private connection: Connection;
@@ -28,8 +57,16 @@ export class TraceFlags {
     this.connection = connection;
   }
 
+  /**
+   * Makes sure the current user has an active USER_DEBUG trace flag
+   * @param debugLevel name of an existing debug level, or a definition to apply
+   * and use instead of the default levels
+   * @returns whether the trace flag was created or updated
+   */
   @elapsedTime()
-  public async ensureTraceFlags(debugLevelName?: string): Promise<boolean> {
+  public async ensureTraceFlags(
+    debugLevel?: string | DebugLevelDefinition
+  ): Promise<boolean> {
     const username = this.connection.getUsername();
     if (!username) {
       throw new Error(nls.localize('error_no_default_username'));
@@ -37,9 +74,16 @@ export class TraceFlags {
 
     const userId = (await this.getUserIdOrThrow(username)).Id;
     const traceFlag = await this.getTraceFlagForUser(userId);
+    const definedDebugLevelId =
+      typeof debugLevel === 'object'
+        ? (await this.applyDebugLevel(debugLevel)).debugLevelId
+        : undefined;
     if (traceFlag) {
       // update existing debug level and trace flag
-      if (!(await this.updateDebugLevel(traceFlag.DebugLevelId))) {
+      if (
+        !definedDebugLevelId &&
+        !(await this.updateDebugLevel(traceFlag.DebugLevelId))
+      ) {
         return false;
       }
 
@@ -48,9 +92,15 @@ export class TraceFlags {
           ? new Date(traceFlag.ExpirationDate)
           : new Date()
       );
-      return await this.updateTraceFlag(traceFlag.Id, expirationDate);
+      return await this.updateTraceFlag(
+        traceFlag.Id,
+        expirationDate,
+        definedDebugLevelId
+      );
     } else {
-      const debugLevelId = await this.getDebugLevelId(debugLevelName);
+      const debugLevelId =
+        definedDebugLevelId ??
+        (await this.getDebugLevelId(debugLevel as string));
 
       // create a trace flag
       const expirationDate = this.calculateExpirationDate(new Date());
@@ -62,6 +112,270 @@ export class TraceFlags {
     return true;
   }
 
+  /**
+   * Lists trace flags, most recently expiring first
+   * @param options traced entity and log types to filter on
+   * @returns trace flags with their debug level
+   */
+  @elapsedTime()
+  public async listTraceFlags(
+    options: TraceFlagListOptions = {}
+  ): Promise<TraceFlagInfo[]> {
+    const conditions: string[] = [];
+    if (options.tracedEntity) {
+      const entityId = await this.resolveTracedEntityId(options.tracedEntity);
+      conditions.push(`TracedEntityId = '${entityId}'`);
+    }
+    if (options.logTypes?.length) {
+      conditions.push(`LogType IN ${toSoqlList(options.logTypes)}`);
+    }
+    const fields = [
+      'Id',
+      'LogType',
+      'TracedEntityId',
+      'TracedEntity.Name',
+      'StartDate',
+      'ExpirationDate',
+      'DebugLevelId',
+      'DebugLevel.DeveloperName',
+      ...DEBUG_LEVEL_CATEGORIES.map((category) => `DebugLevel.${category}`)
+    ];
+    const query = `SELECT ${fields.join(', ')} FROM TraceFlag${
+      conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''
+    } ORDER BY ExpirationDate DESC`;
+    const result =
+      await this.connection.tooling.query<TraceFlagDetailRecord>(query);
+
+    const now = Date.now();
+    return result.records.map((record) => {
+      const levels: DebugLevelCategories = {};
+      for (const category of DEBUG_LEVEL_CATEGORIES) {
+        if (record.DebugLevel?.[category]) {
+          levels[category] = record.DebugLevel[category];
+        }
+      }
+      return {
+        id: record.Id,
+        logType: record.LogType,
+        tracedEntityId: record.TracedEntityId,
+        tracedEntityName: record.TracedEntity?.Name,
+        startDate: record.StartDate ?? undefined,
+        expirationDate: record.ExpirationDate,
+        expired: new Date(record.ExpirationDate).getTime() <= now,
+        debugLevelId: record.DebugLevelId,
+        debugLevelName: record.DebugLevel?.DeveloperName,
+        levels
+      };
+    });
+  }
+
+  /**
+   * Lists the trace flags whose expiration date has passed
+   * @param options traced entity and log types to filter on
+   * @returns expired trace flags
+   */
+  @elapsedTime()
+  public async getExpiredTraceFlags(
+    options: TraceFlagListOptions = {}
+  ): Promise<TraceFlagInfo[]> {
+    return (await this.listTraceFlags(options)).filter((flag) => flag.expired);
+  }
+
+  /**
+   * Creates a trace flag on a user, Apex class or Apex trigger
+   * @param options traced entity, log type, logging window and debug level
+   * @returns id of the new trace flag
+   */
+  @elapsedTime()
+  public async addTraceFlag(options: TraceFlagOptions): Promise<string> {
+    const startDate = options.startDate ?? new Date();
+    this.validateTraceFlagWindow(startDate, options.expirationDate);
+
+    const tracedEntityId =
+      options.tracedEntityId ??
+      (await this.resolveTracedEntityId(options.tracedEntity));
+    const debugLevelId =
+      typeof options.debugLevel === 'string'
+        ? await this.getDebugLevelId(options.debugLevel)
+        : (await this.applyDebugLevel(options.debugLevel)).debugLevelId;
+
+    const result = (await this.connection.tooling.create('TraceFlag', {
+      TracedEntityId: tracedEntityId,
+      LogType:
+        options.logType ??
+        (options.tracedEntity.type === 'User' ? 'USER_DEBUG' : 'CLASS_TRACING'),
+      DebugLevelId: debugLevelId,
+      StartDate: startDate.toISOString(),
+      ExpirationDate: options.expirationDate.toISOString()
+    })) as DataRecordResult;
+    if (!result.success || !result.id) {
+      throw new Error(nls.localize('trace_flags_failed_to_create_trace_flag'));
+    }
+    return result.id;
+  }
+
+  /**
+   * Moves the expiration date of a trace flag
+   * @param traceFlagId trace flag id
+   * @param expirationDate new expiration date, at most 24 hours from now
+   * @returns whether the trace flag was updated
+   */
+  @elapsedTime()
+  public async extendTraceFlag(
+    traceFlagId: string,
+    expirationDate: Date
+  ): Promise<boolean> {
+    this.validateTraceFlagWindow(new Date(), expirationDate);
+    const result = (await this.connection.tooling.update('TraceFlag', {
+      Id: traceFlagId,
+      ExpirationDate: expirationDate.toISOString()
+    })) as DataRecordResult;
+    return result.success;
+  }
+
+  /**
+   * @param traceFlagId trace flag id
+   * @returns whether the trace flag was deleted
+   */
+  @elapsedTime()
+  public async deleteTraceFlag(traceFlagId: string): Promise<boolean> {
+    const result = (await this.connection.tooling.destroy(
+      'TraceFlag',
+      traceFlagId
+    )) as DataRecordResult;
+    return result.success;
+  }
+
+  /**
+   * Compares a debug level definition with the org's DebugLevel of the same
+   * developer name
+   * @param definition local debug level definition
+   * @returns levels that differ from the org
+   */
+  @elapsedTime()
+  public async diffDebugLevel(
+    definition: DebugLevelDefinition
+  ): Promise<DebugLevelDiff> {
+    const record = await this.queryDebugLevel(definition.developerName);
+    return {
+      developerName: definition.developerName,
+      debugLevelId: record?.Id,
+      changes: diffDebugLevels(definition, record ?? {})
+    };
+  }
+
+  /**
+   * Creates the debug level, or updates the levels that differ from the
+   * definition. Nothing is written when the org already matches.
+   * @param definition local debug level definition
+   * @returns id of the debug level and the levels that were changed
+   */
+  @elapsedTime()
+  public async applyDebugLevel(
+    definition: DebugLevelDefinition
+  ): Promise<DebugLevelApplyResult> {
+    const { developerName, debugLevelId, changes } =
+      await this.diffDebugLevel(definition);
+    const levels: DebugLevelCategories = {};
+    for (const change of changes) {
+      levels[change.category] = change.localLevel;
+    }
+
+    if (!debugLevelId) {
+      const result = (await this.connection.tooling.create('DebugLevel', {
+        DeveloperName: developerName,
+        MasterLabel: developerName,
+        ...levels
+      })) as DataRecordResult;
+      if (!result.success || !result.id) {
+        throw new Error(
+          nls.localize('trace_flags_failed_to_create_debug_level')
+        );
+      }
+      return {
+        developerName,
+        debugLevelId: result.id,
+        status: 'created',
+        changes
+      };
+    }
+
+    if (!changes.length) {
+      return { developerName, debugLevelId, status: 'unchanged', changes };
+    }
+
+    const result = (await this.connection.tooling.update('DebugLevel', {
+      Id: debugLevelId,
+      ...levels
+    })) as DataRecordResult;
+    if (!result.success) {
+      throw new Error(
+        nls.localize('trace_flags_failed_to_update_debug_level', developerName)
+      );
+    }
+    return { developerName, debugLevelId, status: 'updated', changes };
+  }
+
+  /**
+   * Looks up the id of a user by username, or of an Apex class or trigger by
+   * name. A class or trigger named without a namespace is looked up outside of
+   * any namespace.
+   * @param entity traced entity
+   * @returns record id
+   */
+  @elapsedTime()
+  public async resolveTracedEntityId(entity: TracedEntity): Promise<string> {
+    let result: QueryRecords;
+    if (entity.type === 'User') {
+      result = (await this.connection.query<IdRecord>(
+        `SELECT Id FROM User WHERE Username = '${escapeSoqlString(entity.name)}'`
+      )) as QueryRecords;
+    } else {
+      const dot = entity.name.indexOf('.');
+      const name = escapeSoqlString(entity.name.slice(dot + 1));
+      const namespaceCondition =
+        dot === -1
+          ? ' AND NamespacePrefix = null'
+          : ` AND NamespacePrefix = '${escapeSoqlString(entity.name.slice(0, dot))}'`;
+      result = (await this.connection.tooling.query<IdRecord>(
+        `SELECT Id FROM ${entity.type} WHERE Name = '${name}'${namespaceCondition}`
+      )) as QueryRecords;
+    }
+
+    if (!result.totalSize) {
+      throw new Error(
+        nls.localize('trace_flags_unknown_entity', [entity.type, entity.name])
+      );
+    }
+    if (result.totalSize > 1) {
+      throw new Error(
+        nls.localize('trace_flags_ambiguous_entity', [entity.type, entity.name])
+      );
+    }
+    return result.records[0].Id;
+  }
+
+  private validateTraceFlagWindow(startDate: Date, expirationDate: Date): void {
+    const window = expirationDate.getTime() - startDate.getTime();
+    if (window <= 0 || window > MAX_TRACE_FLAG_WINDOW_MILLISECONDS) {
+      throw new Error(nls.localize('trace_flags_invalid_window'));
+    }
+  }
+
+  @elapsedTime()
+  private async queryDebugLevel(
+    developerName: string
+  ): Promise<DebugLevelRecord | undefined> {
+    const fields = ['Id', 'DeveloperName', ...DEBUG_LEVEL_CATEGORIES];
+    const query = `SELECT ${fields.join(
+      ', '
+    )} FROM DebugLevel WHERE DeveloperName = '${escapeSoqlString(
+      developerName
+    )}'`;
+    const result = await this.connection.tooling.query<DebugLevelRecord>(query);
+    return result.records[0];
+  }
+
   @elapsedTime()
   private async getDebugLevelId(
     debugLevelName: string
@@ -132,12 +446,14 @@ export class TraceFlags {
   @elapsedTime()
   private async updateTraceFlag(
     id: string,
-    expirationDate: Date
+    expirationDate: Date,
+    debugLevelId?: string
   ): Promise<boolean> {
     const traceFlag = {
       Id: id,
       StartDate: Date.now(),
-      ExpirationDate: expirationDate.toUTCString()
+      ExpirationDate: expirationDate.toUTCString(),
+      ...(debugLevelId ? { DebugLevelId: debugLevelId } : {})
     };
     const result = (await this.connection.tooling.update(
       'TraceFlag',
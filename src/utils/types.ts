@@ -57,6 +57,113 @@ export type TraceFlagRecord = {
   DebugLevel: DebugLevelRecord;
 };
 
+export type TraceFlagLogType = 'USER_DEBUG' | 'CLASS_TRACING' | 'DEVELOPER_LOG';
+
+export type LogCategoryLevel =
+  'NONE' | 'ERROR' | 'WARN' | 'INFO' | 'DEBUG' | 'FINE' | 'FINER' | 'FINEST';
+
+/**
+ * Log level per category of a debug level, named after the DebugLevel fields
+ */
+export type DebugLevelCategories = {
+  ApexCode?: LogCategoryLevel;
+  ApexProfiling?: LogCategoryLevel;
+  Callout?: LogCategoryLevel;
+  Database?: LogCategoryLevel;
+  System?: LogCategoryLevel;
+  Validation?: LogCategoryLevel;
+  Visualforce?: LogCategoryLevel;
+  Workflow?: LogCategoryLevel;
+  Wave?: LogCategoryLevel;
+  Nba?: LogCategoryLevel;
+};
+
+export type DebugLevelDefinition = {
+  developerName: string;
+  levels: DebugLevelCategories;
+};
+
+export type DebugLevelChange = {
+  category: keyof DebugLevelCategories;
+  localLevel: LogCategoryLevel;
+  /**
+   * Undefined when the debug level does not exist in the org
+   */
+  orgLevel?: LogCategoryLevel;
+};
+
+export type DebugLevelDiff = {
+  developerName: string;
+  /**
+   * Undefined when the debug level does not exist in the org
+   */
+  debugLevelId?: string;
+  changes: DebugLevelChange[];
+};
+
+export type DebugLevelApplyResult = {
+  developerName: string;
+  debugLevelId: string;
+  status: 'created' | 'updated' | 'unchanged';
+  changes: DebugLevelChange[];
+};
+
+/**
+ * User, Apex class or Apex trigger that a trace flag is set on
+ */
+export type TracedEntity = {
+  type: 'User' | 'ApexClass' | 'ApexTrigger';
+  /**
+   * Username of a user, or name of a class or trigger (namespace.Name when namespaced)
+   */
+  name: string;
+};
+
+export type TraceFlagListOptions = {
+  /**
+   * Only the trace flags set on this entity
+   */
+  tracedEntity?: TracedEntity;
+  logTypes?: TraceFlagLogType[];
+};
+
+export type TraceFlagOptions = {
+  tracedEntity: TracedEntity;
+  /**
+   * Id of the traced entity when already known, to skip looking it up
+   */
+  tracedEntityId?: string;
+  /**
+   * Defaults to USER_DEBUG for users and CLASS_TRACING for classes and triggers
+   */
+  logType?: TraceFlagLogType;
+  /**
+   * Defaults to now
+   */
+  startDate?: Date;
+  /**
+   * At most 24 hours after the start date
+   */
+  expirationDate: Date;
+  /**
+   * Name of an existing debug level, or a debug level to create or update
+   */
+  debugLevel: string | DebugLevelDefinition;
+};
+
+export type TraceFlagInfo = {
+  id: string;
+  logType: TraceFlagLogType;
+  tracedEntityId: string;
+  tracedEntityName?: string;
+  startDate?: string;
+  expirationDate: string;
+  expired: boolean;
+  debugLevelId: string;
+  debugLevelName: string;
+  levels: DebugLevelCategories;
+};
+
 export type DataRecordResult = {
   id?: string;
   errors?: string[];
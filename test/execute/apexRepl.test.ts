@@ -0,0 +1,163 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { expect } from 'chai';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { createSandbox, SinonSandbox, SinonStub } from 'sinon';
+import { ApexRepl } from '../../src/execute/apexRepl';
+import { ExecuteService } from '../../src/execute/executeService';
+import { nls } from '../../src/i18n';
+
+describe('Apex REPL', () => {
+  let sb: SinonSandbox;
+  let dir: string;
+  let executeService: ExecuteService;
+  let executeStub: SinonStub;
+
+  const runSession = async (
+    lines: string[],
+    options: { commandHistoryPath?: string; delimiter?: string } = {}
+  ): Promise<string> => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let text = '';
+    output.on('data', (chunk) => (text += chunk.toString()));
+    const session = new ApexRepl(executeService, {
+      input,
+      output,
+      dryRun: true,
+      ...options
+    }).start();
+    input.end(lines.map((line) => `${line}\n`).join(''));
+    await session;
+    return text;
+  };
+
+  beforeEach(async () => {
+    sb = createSandbox();
+    dir = await mkdtemp(path.join(os.tmpdir(), 'apex-repl-'));
+    executeService = new ExecuteService({} as Connection);
+    executeStub = sb.stub(executeService, 'executeAnonymous');
+  });
+
+  afterEach(async () => {
+    sb.restore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should execute each block ended by the delimiter', async () => {
+    executeStub.resolves({
+      compiled: true,
+      success: true,
+      logs: 'the log',
+      debugOutput: [{ lineNumber: 2, level: 'DEBUG', message: 'hello' }],
+      result: { count: 1 }
+    });
+
+    const text = await runSession([
+      "String s = 'hello';",
+      'System.debug(s);',
+      '/',
+      ':log',
+      ':quit',
+      'never executed',
+      '/'
+    ]);
+
+    expect(executeStub.calledOnce).to.equal(true);
+    expect(executeStub.firstCall.args[0]).to.include({
+      apexCode: "String s = 'hello';\nSystem.debug(s);",
+      dryRun: true
+    });
+    expect(text).to.contain('[2] DEBUG hello\n');
+    expect(text).to.contain('{\n  "count": 1\n}\n');
+    expect(text).to.contain(nls.localize('execAnonReplSuccess'));
+    expect(text).to.contain('the log\n');
+  });
+
+  it('should clear the block being typed', async () => {
+    executeStub.resolves({ compiled: true, success: true });
+
+    await runSession(['delete accounts;', ':clear', 'System.debug(1);', '/']);
+
+    expect(executeStub.calledOnce).to.equal(true);
+    expect(executeStub.firstCall.args[0]).to.include({
+      apexCode: 'System.debug(1);'
+    });
+  });
+
+  it('should quit while a block is being typed', async () => {
+    const text = await runSession(['System.debug(1);', ':quit', '/']);
+
+    expect(executeStub.called).to.equal(false);
+    expect(text).not.to.contain(nls.localize('execAnonReplSuccess'));
+  });
+
+  it('should print diagnostics in a compact form', async () => {
+    executeStub.resolves({
+      compiled: false,
+      success: false,
+      diagnostic: [
+        {
+          lineNumber: 1,
+          columnNumber: 7,
+          compileProblem: 'Unexpected token',
+          exceptionMessage: '',
+          exceptionStackTrace: ''
+        }
+      ]
+    });
+
+    const text = await runSession(['Integer', 'GO'], { delimiter: 'GO' });
+
+    expect(text).to.contain(
+      nls.localize('execAnonReplCompileError', ['1', '7', 'Unexpected token'])
+    );
+  });
+
+  it('should switch log levels and load files', async () => {
+    executeStub.resolves({ compiled: true, success: true });
+    const scriptPath = path.join(dir, 'probe.apex');
+    await writeFile(scriptPath, 'System.debug(UserInfo.getUserName());');
+
+    const text = await runSession([
+      ':level Database=finest apexcode=DEBUG',
+      ':level Database',
+      `:load ${scriptPath}`,
+      ':load missing.apex',
+      ':nope'
+    ]);
+
+    expect(text).to.contain('Database=FINEST ApexCode=DEBUG\n');
+    expect(text).to.contain(
+      nls.localize('execAnonReplInvalidLevel', 'Database')
+    );
+    expect(executeStub.firstCall.args[0]).to.deep.include({
+      apexCode: 'System.debug(UserInfo.getUserName());',
+      logLevels: { Database: 'FINEST', ApexCode: 'DEBUG' }
+    });
+    expect(text).to.contain(nls.localize('fileNotFoundError', 'missing.apex'));
+    expect(text).to.contain(
+      nls.localize('execAnonReplUnknownCommand', ':nope')
+    );
+  });
+
+  it('should keep typed lines in the command history file', async () => {
+    executeStub.resolves({ compiled: true, success: true });
+    const commandHistoryPath = path.join(dir, 'history', 'repl_history');
+
+    await runSession(['System.debug(1);', '', '/'], { commandHistoryPath });
+    await runSession([':help'], { commandHistoryPath });
+
+    expect(await readFile(commandHistoryPath, 'utf8')).to.equal(
+      'System.debug(1);\n/\n:help\n'
+    );
+  });
+});
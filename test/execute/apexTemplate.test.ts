@@ -0,0 +1,64 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { renderApexTemplate } from '../../src/execute/apexTemplate';
+import { nls } from '../../src/i18n';
+
+describe('Apex templates', () => {
+  it('should render strings, numbers, booleans and null as literals', () => {
+    const apex = renderApexTemplate(
+      'Account a = new Account(Id = {{id}}, Name = {{ name }});\nInteger n = {{count}}; Long big = {{big}}; Decimal d = {{rate}}; Boolean b = {{dryRun}}; String s = {{none}};',
+      {
+        id: '001000000000001AAA',
+        name: "O'Brien \\ Sons\nLtd",
+        count: 3,
+        big: 3000000000,
+        rate: -1.25,
+        dryRun: false,
+        none: null
+      }
+    );
+
+    expect(apex).to.equal(
+      "Account a = new Account(Id = '001000000000001AAA', Name = 'O\\'Brien \\\\ Sons\\nLtd');\nInteger n = 3; Long big = 3000000000L; Decimal d = -1.25; Boolean b = false; String s = null;"
+    );
+  });
+
+  it('should render lists as comma separated literals', () => {
+    expect(
+      renderApexTemplate(
+        'List<Id> ids = new List<Id>{ {{ids}} }; [SELECT Id FROM Account WHERE Name IN ({{names}})];',
+        { ids: ['001A', '001B'], names: ["it's"] }
+      )
+    ).to.equal(
+      "List<Id> ids = new List<Id>{ '001A', '001B' }; [SELECT Id FROM Account WHERE Name IN ('it\\'s')];"
+    );
+  });
+
+  it('should leave Apex blocks and unknown braces alone', () => {
+    const apex = 'if (true) { System.debug(new Map<String, Object>{}); }';
+    expect(renderApexTemplate(apex, {})).to.equal(apex);
+  });
+
+  it('should throw for a missing variable', () => {
+    expect(() => renderApexTemplate('Id x = {{recordId}};', {})).to.throw(
+      nls.localize('execAnonTemplateMissingVariable', 'recordId')
+    );
+  });
+
+  it('should throw for values without an Apex literal', () => {
+    for (const value of [NaN, Infinity, 1e21, 2 ** 60, 1e-7]) {
+      expect(() => renderApexTemplate('{{n}}', { n: value })).to.throw(
+        nls.localize('execAnonTemplateInvalidVariable', 'n')
+      );
+    }
+    expect(() =>
+      // @ts-ignore
+      renderApexTemplate('{{n}}', { n: { nested: true } })
+    ).to.throw(nls.localize('execAnonTemplateInvalidVariable', 'n'));
+  });
+});
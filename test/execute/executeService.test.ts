@@ -10,8 +10,11 @@ import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
 import { assert, expect } from 'chai';
 import fs from 'node:fs';
 import readline from 'readline';
-import { createSandbox, SinonSandbox, SinonStub } from 'sinon';
+import { createSandbox, match, SinonSandbox, SinonStub } from 'sinon';
 import { ExecuteService } from '../../src/execute/executeService';
+import { ExecutionHistory } from '../../src/execute/executionHistory';
+import { LogService } from '../../src/logs/logService';
+import { TraceFlags } from '../../src/utils/traceFlags';
 import { nls } from '../../src/i18n';
 import {
   ExecuteAnonymousResponse,
@@ -19,6 +22,8 @@ import {
   ExecAnonApiResponse
 } from '../../src/execute/types';
 import * as os from 'node:os';
+import * as path from 'node:path';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 
 describe('Apex Execute Tests', async () => {
   const $$ = new TestContext();
@@ -312,7 +317,7 @@ describe('Apex Execute Tests', async () => {
   it('should throw an error if user input fails', async () => {
     const errorText = 'This is the error';
     // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-    const on = (event: string, listener: (err?: Error) => {}) => {
+    const on = (event: string, listener: (err?: Error) => void) => {
       try {
         if (event === 'error') {
           listener(new Error(errorText));
@@ -341,7 +346,7 @@ describe('Apex Execute Tests', async () => {
   it('should process user input correctly', async () => {
     const inputText = 'This should be the only text';
     // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-    const on = (event: string, listener: (input: string) => {}) => {
+    const on = (event: string, listener: (input: string) => void) => {
       listener(inputText);
     };
     sandboxStub
@@ -356,7 +361,7 @@ describe('Apex Execute Tests', async () => {
 
   it('should throw error if user is idle', async () => {
     // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-    const on = (event: string, listener: () => {}) => {
+    const on = (event: string, listener: () => void) => {
       listener();
     };
     sandboxStub
@@ -371,4 +376,462 @@ describe('Apex Execute Tests', async () => {
       assert.equal(nls.localize('execAnonInputTimeout'), e.message);
     }
   });
+
+  it('should roll back a dry run and still return the log', async () => {
+    const apexExecute = new ExecuteService(mockConnection);
+    const soapResponse: SoapResponse = {
+      'soapenv:Envelope': {
+        'soapenv:Header': { DebuggingInfo: { debugLog: 'log' } },
+        'soapenv:Body': {
+          executeAnonymousResponse: {
+            result: {
+              column: -1,
+              line: -1,
+              compiled: 'true',
+              compileProblem: '',
+              exceptionMessage: '',
+              exceptionStackTrace: '',
+              success: 'true'
+            }
+          }
+        }
+      }
+    };
+    const requestStub = sandboxStub
+      .stub(ExecuteService.prototype, 'connectionRequest')
+      .resolves(soapResponse);
+
+    const response = await apexExecute.executeAnonymous({
+      apexCode: 'delete [SELECT Id FROM Account];',
+      dryRun: true
+    });
+
+    expect(response).to.eql({
+      compiled: true,
+      success: true,
+      logs: 'log',
+      dryRun: true
+    });
+    const body = String(requestStub.firstCall.args[0].body);
+    expect(body).to.contain(
+      'Database.setSavepoint(); try { delete [SELECT Id FROM Account];\n} finally { Database.rollback('
+    );
+  });
+
+  it('should dry run a script with a top-level method', async () => {
+    const apexExecute = new ExecuteService(mockConnection);
+    const soapResponse: SoapResponse = {
+      'soapenv:Envelope': {
+        'soapenv:Header': { DebuggingInfo: { debugLog: 'log' } },
+        'soapenv:Body': {
+          executeAnonymousResponse: {
+            result: {
+              column: 3,
+              line: 7,
+              compiled: 'false',
+              compileProblem: 'Variable does not exist: acc',
+              exceptionMessage: '',
+              exceptionStackTrace: '',
+              success: 'false'
+            }
+          }
+        }
+      }
+    };
+    const requestStub = sandboxStub
+      .stub(ExecuteService.prototype, 'connectionRequest')
+      .resolves(soapResponse);
+
+    const response = await apexExecute.executeAnonymous({
+      apexCode: 'helper();\nstatic void helper() {\n  update acc;\n}',
+      dryRun: true
+    });
+
+    const body = String(requestStub.firstCall.args[0].body);
+    expect(body).to.match(
+      /try \{ helper\(\);\n *\n *\n *\n\} finally \{ Database\.rollback\(\w+\); \}\nstatic void helper\(\) \{\n  update acc;\n\}/
+    );
+    expect(response.dryRun).to.equal(true);
+    expect(response.diagnostic[0]).to.include({
+      lineNumber: 3,
+      columnNumber: 3
+    });
+  });
+
+  it('should render template variables into the Apex code', async () => {
+    const executeService = new ExecuteService(mockConnection);
+    const apexCode = await executeService.getApexCode({
+      apexCode: 'delete [SELECT Id FROM Account WHERE Name = {{name}}];',
+      templateVariables: { name: "Bob's" }
+    });
+    expect(apexCode).to.equal(
+      "delete [SELECT Id FROM Account WHERE Name = 'Bob\\'s'];"
+    );
+  });
+
+  describe('Tooling REST execution', () => {
+    let addTraceFlagStub: SinonStub;
+    let resolveUserStub: SinonStub;
+    let deleteTraceFlagStub: SinonStub;
+    let executeStub: SinonStub;
+    let queryStub: SinonStub;
+
+    beforeEach(() => {
+      resolveUserStub = sandboxStub
+        .stub(TraceFlags.prototype, 'resolveTracedEntityId')
+        .resolves('005xx0000000001');
+      addTraceFlagStub = sandboxStub
+        .stub(TraceFlags.prototype, 'addTraceFlag')
+        .resolves('7tfxx0000000001');
+      deleteTraceFlagStub = sandboxStub
+        .stub(TraceFlags.prototype, 'deleteTraceFlag')
+        .resolves(true);
+      executeStub = sandboxStub.stub(
+        mockConnection.tooling,
+        'executeAnonymous'
+      );
+      queryStub = sandboxStub.stub(mockConnection.tooling, 'query');
+      queryStub.withArgs(match(/FROM TraceFlag/)).resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ CreatedDate: '2026-10-19T12:00:00.000+0000' }]
+      });
+    });
+
+    it('should trace the user and return the generated log', async () => {
+      executeStub.resolves({
+        compiled: true,
+        success: true,
+        line: -1,
+        column: -1,
+        compileProblem: null,
+        exceptionMessage: null,
+        exceptionStackTrace: null
+      });
+      queryStub.resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ Id: '07Lxx0000000001' }]
+      });
+      sandboxStub.stub(LogService.prototype, 'getLogById').resolves({
+        log: '12:00:00.1 (200)|USER_DEBUG|[1]|DEBUG|APEX_RESULT:[1,2]'
+      });
+
+      const response = await new ExecuteService(
+        mockConnection
+      ).executeAnonymous({
+        apexCode: 'System.debug(1);',
+        executionMode: 'tooling',
+        logLevels: { Database: 'FINEST' }
+      });
+
+      expect(response).to.eql({
+        compiled: true,
+        success: true,
+        logId: '07Lxx0000000001',
+        logs: '12:00:00.1 (200)|USER_DEBUG|[1]|DEBUG|APEX_RESULT:[1,2]',
+        result: [1, 2]
+      });
+      expect(executeStub.calledOnceWith('System.debug(1);')).to.equal(true);
+      expect(addTraceFlagStub.firstCall.args[0]).to.deep.include({
+        logType: 'DEVELOPER_LOG',
+        debugLevel: {
+          developerName: 'ApexNodeExecuteAnonymous',
+          levels: {
+            ApexCode: 'DEBUG',
+            ApexProfiling: 'NONE',
+            Callout: 'NONE',
+            Database: 'FINEST',
+            System: 'NONE',
+            Validation: 'NONE',
+            Visualforce: 'NONE',
+            Workflow: 'NONE',
+            Wave: 'NONE',
+            Nba: 'NONE'
+          }
+        },
+        tracedEntityId: '005xx0000000001'
+      });
+      expect(resolveUserStub.calledOnce).to.equal(true);
+      expect(queryStub.firstCall.args[0]).to.equal(
+        "SELECT CreatedDate FROM TraceFlag WHERE Id = '7tfxx0000000001'"
+      );
+      expect(queryStub.secondCall.args[0]).to.equal(
+        "SELECT Id FROM ApexLog WHERE LogUserId = '005xx0000000001' AND Operation LIKE '%executeAnonymous%' AND StartTime >= 2026-10-19T12:00:00Z ORDER BY StartTime ASC LIMIT 1"
+      );
+      expect(deleteTraceFlagStub.calledOnceWith('7tfxx0000000001')).to.equal(
+        true
+      );
+    });
+
+    it('should report diagnostics and remove the trace flag', async () => {
+      executeStub.resolves({
+        compiled: false,
+        success: false,
+        line: 1,
+        column: 8,
+        compileProblem: 'Unexpected token',
+        exceptionMessage: null,
+        exceptionStackTrace: null
+      });
+      queryStub.resolves({ done: true, totalSize: 0, records: [] });
+
+      const response = await new ExecuteService(
+        mockConnection
+      ).executeAnonymous({
+        apexCode: 'System.debug(',
+        executionMode: 'tooling'
+      });
+
+      expect(response).to.eql({
+        compiled: false,
+        success: false,
+        diagnostic: [
+          {
+            lineNumber: 1,
+            columnNumber: 8,
+            compileProblem: 'Unexpected token',
+            exceptionMessage: '',
+            exceptionStackTrace: ''
+          }
+        ]
+      });
+      expect(deleteTraceFlagStub.calledOnce).to.equal(true);
+    });
+
+    it('should report a compiled execution without a log', async () => {
+      executeStub.resolves({
+        compiled: true,
+        success: true,
+        line: -1,
+        column: -1,
+        compileProblem: null,
+        exceptionMessage: null,
+        exceptionStackTrace: null
+      });
+      queryStub.resolves({ done: true, totalSize: 0, records: [] });
+
+      const response = await new ExecuteService(
+        mockConnection
+      ).executeAnonymous({
+        apexCode: 'System.debug(1);',
+        executionMode: 'tooling'
+      });
+
+      expect(response).to.eql({
+        compiled: true,
+        success: true,
+        logError: nls.localize('execAnonLogNotFound')
+      });
+      expect(deleteTraceFlagStub.calledOnce).to.equal(true);
+    });
+  });
+
+  describe('Execution history', () => {
+    let historyDir: string;
+
+    beforeEach(async () => {
+      historyDir = await mkdtemp(path.join(os.tmpdir(), 'apex-history-'));
+    });
+
+    afterEach(async () => {
+      await rm(historyDir, { recursive: true, force: true });
+    });
+
+    it('should record executions and replay them', async () => {
+      const historyPath = path.join(historyDir, 'history.jsonl');
+      const requestStub = sandboxStub
+        .stub(ExecuteService.prototype, 'connectionRequest')
+        .resolves({
+          'soapenv:Envelope': {
+            'soapenv:Body': {
+              executeAnonymousResponse: {
+                result: {
+                  column: 5,
+                  line: 2,
+                  compiled: 'false',
+                  compileProblem: 'Unexpected token',
+                  exceptionMessage: {},
+                  exceptionStackTrace: {},
+                  success: 'false'
+                }
+              }
+            }
+          }
+        });
+      const executeService = new ExecuteService(mockConnection);
+
+      await executeService.executeAnonymous({
+        apexCode: 'Id x = {{id}};\nSystem.debug(x);',
+        templateVariables: { id: '001' },
+        dryRun: true,
+        historyPath
+      });
+
+      const [entry] = await new ExecutionHistory(historyPath).list();
+      expect(entry).to.deep.include({
+        username: testData.username,
+        apiVersion: mockConnection.getApiVersion(),
+        apexCode: "Id x = '001';\nSystem.debug(x);",
+        dryRun: true,
+        compiled: false,
+        success: false,
+        diagnosticSummary: 'Line 2, column 5: Unexpected token'
+      });
+
+      await executeService.replayHistoryEntry(entry, { dryRun: false });
+      const body = String(requestStub.secondCall.args[0].body);
+      expect(body).to.contain(
+        '<apexcode>Id x = &apos;001&apos;;\nSystem.debug(x);</apexcode>'
+      );
+      expect(await new ExecutionHistory(historyPath).list()).to.have.length(1);
+    });
+
+    it('should not report a history error as a failed execution', async () => {
+      sandboxStub.stub(ExecuteService.prototype, 'connectionRequest').resolves({
+        'soapenv:Envelope': {
+          'soapenv:Body': {
+            executeAnonymousResponse: {
+              result: {
+                column: -1,
+                line: -1,
+                compiled: 'true',
+                compileProblem: {},
+                exceptionMessage: {},
+                exceptionStackTrace: {},
+                success: 'true'
+              }
+            }
+          }
+        }
+      });
+      const appendStub = sandboxStub
+        .stub(ExecutionHistory.prototype, 'append')
+        .rejects(new Error('EACCES: permission denied'));
+
+      const response = await new ExecuteService(
+        mockConnection
+      ).executeAnonymous({
+        apexCode: "insert new Account(Name = 'x');",
+        historyPath: path.join(historyDir, 'history.jsonl')
+      });
+
+      expect(response).to.include({
+        compiled: true,
+        success: true,
+        historyError: 'EACCES: permission denied'
+      });
+      expect(appendStub.calledOnce).to.equal(true);
+      expect(appendStub.firstCall.args[0].success).to.equal(true);
+    });
+  });
+
+  describe('Batch execution', () => {
+    let outputDir: string;
+    let executeStub: SinonStub;
+
+    beforeEach(async () => {
+      outputDir = await mkdtemp(path.join(os.tmpdir(), 'apex-batch-'));
+      sandboxStub
+        .stub(ExecuteService.prototype, 'readApexFile')
+        .callsFake((scriptPath: string) => `// ${path.basename(scriptPath)}`);
+      executeStub = sandboxStub.stub(
+        ExecuteService.prototype,
+        'executeAnonymous'
+      );
+    });
+
+    afterEach(async () => {
+      await rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should stop at the first failure and write a manifest', async () => {
+      const diagnostic = {
+        lineNumber: 1,
+        columnNumber: 1,
+        compileProblem: '',
+        exceptionMessage: 'System.DmlException',
+        exceptionStackTrace: 'AnonymousBlock: line 1'
+      };
+      executeStub
+        .onFirstCall()
+        .resolves({ compiled: true, success: true, logs: 'first log' })
+        .onSecondCall()
+        .resolves({ compiled: true, success: false, diagnostic: [diagnostic] });
+
+      const result = await new ExecuteService(mockConnection).executeBatch({
+        scriptPaths: ['setup/a.apex', 'setup/b.apex', 'setup/c.apex'],
+        outputDir,
+        dryRun: true
+      });
+
+      expect(result.success).to.equal(false);
+      expect(result.scripts.map((script) => script.status)).to.eql([
+        'succeeded',
+        'failed',
+        'skipped'
+      ]);
+      expect(executeStub.callCount).to.equal(2);
+      expect(executeStub.firstCall.args[0]).to.include({
+        apexCode: '// a.apex',
+        dryRun: true
+      });
+      expect(result.scripts[0].hash).to.match(/^[0-9a-f]{64}$/);
+      expect(result.scripts[0].logPath).to.equal(
+        path.join(outputDir, '01-a.log')
+      );
+      expect(await readFile(result.scripts[0].logPath, 'utf8')).to.equal(
+        'first log'
+      );
+      expect(result.scripts[1].diagnostic).to.eql([diagnostic]);
+      expect(result.manifestPath).to.equal(
+        path.join(outputDir, 'manifest.json')
+      );
+      expect(JSON.parse(await readFile(result.manifestPath, 'utf8'))).to.eql(
+        result.scripts
+      );
+    });
+
+    it('should run the scripts of a directory in name order and continue', async () => {
+      const dir = await mkdtemp(path.join(outputDir, 'scripts-'));
+      for (const file of [
+        '10-last.apex',
+        '2-second.apex',
+        '1-first.apex',
+        'notes.txt'
+      ]) {
+        await writeFile(path.join(dir, file), '');
+      }
+      executeStub
+        .onFirstCall()
+        .rejects(new Error('Session expired'))
+        .resolves({ compiled: true, success: true });
+
+      const result = await new ExecuteService(mockConnection).executeBatch({
+        scriptDir: dir,
+        outputDir,
+        continueOnFailure: true
+      });
+
+      expect(
+        result.scripts.map((script) => path.basename(script.scriptPath))
+      ).to.eql(['1-first.apex', '2-second.apex', '10-last.apex']);
+      expect(result.scripts.map((script) => script.status)).to.eql([
+        'failed',
+        'succeeded',
+        'succeeded'
+      ]);
+      expect(result.scripts[0].error).to.equal('Session expired');
+      expect(result.success).to.equal(false);
+    });
+
+    it('should throw when no scripts are given', async () => {
+      try {
+        await new ExecuteService(mockConnection).executeBatch({ outputDir });
+        assert.fail('Expected an error');
+      } catch (e) {
+        assert.equal(e.message, nls.localize('execAnonBatchNoScripts'));
+      }
+    });
+  });
 });
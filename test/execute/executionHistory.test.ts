@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ExecutionHistory } from '../../src/execute/executionHistory';
+import { ExecutionHistoryEntry } from '../../src/execute/types';
+
+describe('Execution history', () => {
+  let dir: string;
+  let history: ExecutionHistory;
+
+  const entry = (
+    id: string,
+    timestamp: string,
+    fields: Partial<ExecutionHistoryEntry> = {}
+  ): ExecutionHistoryEntry => ({
+    id,
+    timestamp,
+    username: 'admin@uat.org',
+    apiVersion: '60.0',
+    apexCode: 'System.debug(1);',
+    dryRun: false,
+    compiled: true,
+    success: true,
+    durationMilliseconds: 10,
+    ...fields
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'apex-history-'));
+    history = new ExecutionHistory(path.join(dir, 'nested', 'history.jsonl'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should list nothing before the first execution', async () => {
+    expect(await history.list()).to.eql([]);
+  });
+
+  it('should list appended entries most recent first', async () => {
+    await history.append(entry('1', '2026-01-06T10:00:00.000Z'));
+    await history.append(entry('2', '2026-01-07T10:00:00.000Z'));
+    await appendFile(history.filePath, '{"id":"3","timest');
+
+    expect((await history.list()).map((e) => e.id)).to.eql(['2', '1']);
+    expect((await history.get('1')).timestamp).to.equal(
+      '2026-01-06T10:00:00.000Z'
+    );
+    expect(await history.get('missing')).to.equal(undefined);
+  });
+
+  it('should search by text, user, time window and outcome', async () => {
+    await history.append(
+      entry('1', '2026-01-06T10:00:00.000Z', {
+        apexCode: 'delete [SELECT Id FROM Lead];'
+      })
+    );
+    await history.append(
+      entry('2', '2026-01-06T11:00:00.000Z', {
+        success: false,
+        diagnosticSummary: 'Line 1, column 1: System.DmlException'
+      })
+    );
+    await history.append(
+      entry('3', '2026-01-08T10:00:00.000Z', { username: 'dev@uat.org' })
+    );
+
+    const ids = async (search: object): Promise<string[]> =>
+      (await history.search(search)).map((e) => e.id);
+
+    expect(await ids({ text: 'from lead' })).to.eql(['1']);
+    expect(await ids({ text: 'dmlexception' })).to.eql(['2']);
+    expect(await ids({ username: 'admin@uat.org' })).to.eql(['2', '1']);
+    expect(
+      await ids({
+        since: new Date('2026-01-06T00:00:00.000Z'),
+        until: new Date('2026-01-07T00:00:00.000Z')
+      })
+    ).to.eql(['2', '1']);
+    expect(await ids({ success: true, limit: 1 })).to.eql(['3']);
+  });
+});
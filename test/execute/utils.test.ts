@@ -5,7 +5,12 @@
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
 
-import { encodeBody } from '../../src/execute/utils';
+import {
+  encodeBody,
+  parseDebugOutput,
+  unwrapRollbackResponse,
+  wrapInRollback
+} from '../../src/execute/utils';
 import { expect } from 'chai';
 
 describe('encodeBody for execute request', () => {
@@ -56,4 +61,191 @@ xmlns:apex="http://soap.sforce.com/2006/08/apex">
     const encodedBody = encodeBody(accessToken, actionBody);
     expect(encodedBody).to.eql(expectedResponse);
   });
+
+  it('should set the log level of each category in the debugging header', () => {
+    const encodedBody = encodeBody(accessToken, 'System.debug(1);', {
+      ApexCode: 'FINEST',
+      Database: 'INFO'
+    });
+    expect(encodedBody).to.contain(
+      '<apex:DebuggingHeader><apex:categories><apex:category>Apex_code</apex:category><apex:level>Finest</apex:level></apex:categories><apex:categories><apex:category>Db</apex:category><apex:level>Info</apex:level></apex:categories><apex:debugLevel>DEBUGONLY</apex:debugLevel></apex:DebuggingHeader>'
+    );
+  });
+});
+
+describe('Rollback wrapping for dry runs', () => {
+  const diagnostic = {
+    compileProblem: 'Unexpected token',
+    exceptionMessage: '',
+    exceptionStackTrace: ''
+  };
+
+  it('should roll back without moving the submitted lines', () => {
+    const { apexCode } = wrapInRollback(
+      'insert new Account();\nSystem.debug(1);'
+    );
+    const lines = apexCode.split('\n');
+
+    expect(lines).to.have.length(3);
+    expect(lines[0]).to.match(
+      /^Savepoint (\w+) = Database\.setSavepoint\(\); try \{ insert new Account\(\);$/
+    );
+    expect(lines[1]).to.equal('System.debug(1);');
+    expect(lines[2]).to.match(/^\} finally \{ Database\.rollback\(\w+\); \}$/);
+  });
+
+  it('should roll back when the script returns early', () => {
+    const { apexCode } = wrapInRollback(
+      'insert new Account();\nif (true) { return; }\nupdate acc;'
+    );
+
+    // the return exits the try block, whose finally rolls back
+    expect(apexCode).to.match(
+      /^Savepoint (\w+) = Database\.setSavepoint\(\); try \{ insert new Account\(\);\nif \(true\) \{ return; \}\nupdate acc;\n\} finally \{ Database\.rollback\(\1\); \}$/
+    );
+  });
+
+  it('should move top-level declarations out of the try block', () => {
+    const { apexCode } = wrapInRollback(
+      [
+        'helper(1);',
+        '  static void helper(Integer i) {',
+        "    insert new Account(Name = 'a {');",
+        '  }',
+        'public class MyException extends Exception {}',
+        'if (true) { throw new MyException(); }'
+      ].join('\n')
+    );
+    const lines = apexCode.split('\n');
+
+    expect(lines[0]).to.match(/try \{ helper\(1\);$/);
+    expect(lines.slice(1, 5).every((line) => !line.trim())).to.equal(true);
+    expect(lines[5]).to.equal('if (true) { throw new MyException(); }');
+    expect(lines[6]).to.match(/^\} finally \{/);
+    expect(lines.slice(7)).to.eql([
+      '  static void helper(Integer i) {',
+      "    insert new Account(Name = 'a {');",
+      '  }',
+      'public class MyException extends Exception {}'
+    ]);
+  });
+
+  it('should keep blocks that are not declarations in the try block', () => {
+    const code = [
+      'for (Integer i = 0; i < 2; i++) {',
+      '  System.debug(i);',
+      '}',
+      'try { update acc; } catch (DmlException e) { System.debug(e); }'
+    ].join('\n');
+
+    expect(wrapInRollback(code).apexCode).to.contain(`try { ${code}\n}`);
+  });
+
+  it('should map a compile error on the first line back to the submitted code', () => {
+    const wrapping = wrapInRollback('Integer i = ;\nSystem.debug(i);');
+    const column = wrapping.apexCode.indexOf('= ;') + 3;
+
+    const response = unwrapRollbackResponse(
+      {
+        compiled: false,
+        success: false,
+        diagnostic: [{ ...diagnostic, lineNumber: 1, columnNumber: column }]
+      },
+      wrapping
+    );
+
+    expect(response.dryRun).to.equal(true);
+    expect(response.diagnostic[0]).to.include({
+      lineNumber: 1,
+      columnNumber: 13
+    });
+  });
+
+  it('should map a compile error on a later line back to the submitted code', () => {
+    const wrapping = wrapInRollback(
+      'helper();\nvoid helper() {\n  Integer i = ;\n}\nSystem.debug(1);'
+    );
+    const lines = wrapping.apexCode.split('\n');
+    const errorLine = lines.indexOf('  Integer i = ;') + 1;
+
+    const response = unwrapRollbackResponse(
+      {
+        compiled: false,
+        success: false,
+        diagnostic: [
+          { ...diagnostic, lineNumber: errorLine, columnNumber: 15 },
+          { ...diagnostic, lineNumber: 5, columnNumber: 1 }
+        ]
+      },
+      wrapping
+    );
+
+    expect(errorLine).to.be.greaterThan(6);
+    expect(
+      response.diagnostic.map((d) => [d.lineNumber, d.columnNumber])
+    ).to.eql([
+      [3, 15],
+      [5, 1]
+    ]);
+  });
+
+  it('should map debug output lines back to the submitted code', () => {
+    const wrapping = wrapInRollback(
+      'helper();\nvoid helper() {\n  System.debug(1);\n}'
+    );
+    const debugLine = wrapping.apexCode
+      .split('\n')
+      .indexOf('  System.debug(1);');
+
+    const response = unwrapRollbackResponse(
+      {
+        compiled: true,
+        success: true,
+        debugOutput: [
+          { lineNumber: debugLine + 1, level: 'DEBUG', message: '1' }
+        ]
+      },
+      wrapping
+    );
+
+    expect(response.debugOutput[0].lineNumber).to.equal(3);
+  });
+});
+
+describe('USER_DEBUG output of anonymous Apex', () => {
+  const log = [
+    '60.0 APEX_CODE,DEBUG;APEX_PROFILING,INFO',
+    'Execute Anonymous: System.debug(1);',
+    '12:00:00.1 (100)|EXECUTION_STARTED',
+    '12:00:00.1 (200)|USER_DEBUG|[1]|DEBUG|first',
+    '12:00:00.1 (300)|USER_DEBUG|[2]|WARN|second',
+    'line',
+    '12:00:00.1 (400)|USER_DEBUG|[3]|DEBUG|APEX_RESULT:{"count":2,"names":["a","b"]}',
+    '12:00:00.1 (500)|EXECUTION_FINISHED'
+  ].join('\n');
+
+  it('should list debug entries and extract the result', () => {
+    expect(parseDebugOutput(log)).to.eql({
+      debugOutput: [
+        { lineNumber: 1, level: 'DEBUG', message: 'first' },
+        { lineNumber: 2, level: 'WARN', message: 'second\nline' }
+      ],
+      result: { count: 2, names: ['a', 'b'] }
+    });
+  });
+
+  it('should keep a result that is not JSON as debug output', () => {
+    const output = parseDebugOutput(
+      '12:00:00.1 (200)|USER_DEBUG|[4]|DEBUG|APEX_RESULT:{oops'
+    );
+    expect(output).to.eql({
+      debugOutput: [
+        { lineNumber: 4, level: 'DEBUG', message: 'APEX_RESULT:{oops' }
+      ]
+    });
+  });
+
+  it('should leave out empty output', () => {
+    expect(parseDebugOutput('12:00:00.1 (100)|EXECUTION_STARTED')).to.eql({});
+  });
 });
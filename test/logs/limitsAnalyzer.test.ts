@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { expect } from 'chai';
+import {
+  analyzeLimits,
+  getLimitsOverThreshold
+} from '../../src/logs/limitsAnalyzer';
+import { parseLog } from '../../src/logs/logParser';
+import { sampleLog } from './testLogs';
+
+const multiNamespaceLog = `12:00:00.0 (1000)|CUMULATIVE_LIMIT_USAGE
+12:00:00.0 (1000)|LIMIT_USAGE_FOR_NS|(default)|
+  Number of SOQL queries: 40 out of 100
+  Maximum CPU time: 500 out of 10000
+12:00:00.0 (1000)|LIMIT_USAGE_FOR_NS|acme|
+  Number of SOQL queries: 2 out of 100
+  Number of callouts: 1 out of 100
+12:00:00.0 (2000)|CUMULATIVE_LIMIT_USAGE_END
+12:00:00.0 (3000)|CUMULATIVE_LIMIT_USAGE
+12:00:00.0 (3000)|LIMIT_USAGE_FOR_NS|(default)|
+  Number of SOQL queries: 95 out of 100 ******* CLOSE TO LIMIT
+  Maximum CPU time: 300 out of 10000
+12:00:00.0 (4000)|CUMULATIVE_LIMIT_USAGE_END`;
+
+describe('Apex Log Limits Analyzer', () => {
+  it('should read limit usage from a log', () => {
+    const usage = analyzeLimits(sampleLog);
+    expect(usage.length).to.equal(1);
+    expect(usage[0].namespace).to.equal('(default)');
+    expect(usage[0].soqlQueries).to.deep.equal({ used: 1, max: 100 });
+    expect(usage[0].queryRows).to.deep.equal({ used: 2, max: 50000 });
+    expect(usage[0].dmlStatements).to.deep.equal({ used: 1, max: 150 });
+    expect(usage[0].dmlRows).to.deep.equal({ used: 2, max: 10000 });
+    expect(usage[0].cpuTime).to.deep.equal({ used: 12, max: 10000 });
+    expect(usage[0].heapSize).to.deep.equal({ used: 2048, max: 6000000 });
+    expect(usage[0].callouts).to.deep.equal({ used: 0, max: 100 });
+    expect(usage[0].limits['Number of future calls']).to.deep.equal({
+      used: 0,
+      max: 50
+    });
+  });
+
+  it('should accept a parsed log', () => {
+    expect(analyzeLimits(parseLog(sampleLog))).to.deep.equal(
+      analyzeLimits(sampleLog)
+    );
+  });
+
+  it('should report the highest usage per namespace across blocks', () => {
+    const usage = analyzeLimits(multiNamespaceLog);
+    expect(usage.map((u) => u.namespace)).to.deep.equal(['(default)', 'acme']);
+    expect(usage[0].soqlQueries).to.deep.equal({ used: 95, max: 100 });
+    expect(usage[0].cpuTime).to.deep.equal({ used: 500, max: 10000 });
+    expect(usage[1].callouts).to.deep.equal({ used: 1, max: 100 });
+    expect(usage[1].dmlRows).to.be.undefined;
+  });
+
+  it('should return no usage for a log without limit blocks', () => {
+    expect(analyzeLimits('12:00:00.0 (1000)|EXECUTION_STARTED')).to.deep.equal(
+      []
+    );
+  });
+
+  it('should list limits over the threshold', () => {
+    const usage = analyzeLimits(multiNamespaceLog);
+    expect(getLimitsOverThreshold(usage, 90)).to.deep.equal([
+      {
+        namespace: '(default)',
+        name: 'Number of SOQL queries',
+        used: 95,
+        max: 100,
+        percentage: 95
+      }
+    ]);
+    expect(getLimitsOverThreshold(usage, 96)).to.deep.equal([]);
+  });
+});
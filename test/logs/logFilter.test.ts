@@ -0,0 +1,116 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { expect } from 'chai';
+import {
+  filterLogLines,
+  hasRecordFilter,
+  matchesLogRecord
+} from '../../src/logs/logFilter';
+import { LogRecord } from '../../src/logs/types';
+import { sampleLog } from './testLogs';
+
+const logRecord: LogRecord = {
+  Id: '07L5tgg0005PGdTnEAL',
+  Application: 'Unknown',
+  DurationMilliseconds: 75,
+  Location: 'Unknown',
+  LogLength: 450,
+  LogUser: {
+    Name: 'Test User',
+    attributes: {}
+  },
+  Operation: 'Api',
+  Request: 'Api',
+  StartTime: '2020-10-13T05:39:43.000+0000',
+  Status: 'Success'
+};
+
+describe('Apex Log Filter', () => {
+  describe('matchesLogRecord', () => {
+    it('should keep every log without filters', () => {
+      expect(hasRecordFilter({ eventTypes: ['USER_DEBUG'] })).to.be.false;
+      expect(matchesLogRecord(logRecord)).to.be.true;
+    });
+
+    it('should filter on user, operation, request and status ignoring case', () => {
+      const options = {
+        logUsers: ['test user', 'Other User'],
+        operations: ['API'],
+        requests: ['api'],
+        statuses: ['Success']
+      };
+      expect(hasRecordFilter(options)).to.be.true;
+      expect(matchesLogRecord(logRecord, options)).to.be.true;
+      expect(
+        matchesLogRecord(logRecord, { ...options, logUsers: ['Other User'] })
+      ).to.be.false;
+      expect(matchesLogRecord(logRecord, { statuses: ['Assertion Failed'] })).to
+        .be.false;
+    });
+
+    it('should filter on minimum duration', () => {
+      expect(matchesLogRecord(logRecord, { minDurationMilliseconds: 75 })).to.be
+        .true;
+      expect(matchesLogRecord(logRecord, { minDurationMilliseconds: 76 })).to.be
+        .false;
+    });
+  });
+
+  describe('filterLogLines', () => {
+    it('should return the log unchanged without line filters', () => {
+      expect(filterLogLines(sampleLog, { logUsers: ['Test User'] })).to.equal(
+        sampleLog
+      );
+    });
+
+    it('should keep the lines of the requested event types', () => {
+      expect(
+        filterLogLines(sampleLog, { eventTypes: ['USER_DEBUG', 'DML_END'] })
+      ).to.equal(
+        [
+          '12:00:00.0 (15000)|DML_END|[5]',
+          '12:00:00.0 (16000)|USER_DEBUG|[6]|DEBUG|first line|with pipe',
+          'second line'
+        ].join('\n')
+      );
+    });
+
+    it('should keep the lines matching a pattern', () => {
+      expect(
+        filterLogLines(sampleLog, { linePattern: 'Number of DML' })
+      ).to.equal(
+        [
+          '  Number of DML statements: 1 out of 150',
+          '  Number of DML rows: 2 out of 10000'
+        ].join('\n')
+      );
+      expect(
+        filterLogLines(sampleLog, {
+          eventTypes: ['USER_DEBUG'],
+          linePattern: /line$/
+        })
+      ).to.equal('second line');
+    });
+
+    it('should match every line with a global pattern', () => {
+      expect(
+        filterLogLines(sampleLog, { linePattern: /Number of DML/g })
+      ).to.equal(
+        [
+          '  Number of DML statements: 1 out of 150',
+          '  Number of DML rows: 2 out of 10000'
+        ].join('\n')
+      );
+    });
+
+    it('should return undefined when no line is left', () => {
+      expect(filterLogLines(sampleLog, { eventTypes: ['CALLOUT_REQUEST'] })).to
+        .be.undefined;
+    });
+  });
+});
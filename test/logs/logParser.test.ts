@@ -0,0 +1,110 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { expect } from 'chai';
+import { flattenLogEvents, parseLog } from '../../src/logs/logParser';
+import { sampleLog } from './testLogs';
+
+describe('Apex Log Parser', () => {
+  it('should parse the log header', () => {
+    const parsed = parseLog(sampleLog);
+    expect(parsed.apiVersion).to.equal('60.0');
+    expect(parsed.logLevels).to.deep.equal({
+      APEX_CODE: 'FINEST',
+      APEX_PROFILING: 'INFO',
+      DB: 'INFO'
+    });
+  });
+
+  it('should nest events between their entry and exit events', () => {
+    const parsed = parseLog(sampleLog);
+    expect(parsed.events.map((e) => e.type)).to.deep.equal([
+      'USER_INFO',
+      'EXECUTION_STARTED'
+    ]);
+
+    const execution = parsed.events[1];
+    expect(execution.timestamp).to.equal(2000);
+    expect(execution.exitTimestamp).to.equal(22000);
+    expect(execution.duration).to.equal(20000);
+
+    const codeUnit = execution.children[0];
+    expect(codeUnit.type).to.equal('CODE_UNIT_STARTED');
+    expect(codeUnit.name).to.equal('execute_anonymous_apex');
+    expect(codeUnit.children.map((e) => e.type)).to.deep.equal([
+      'METHOD_ENTRY',
+      'EXCEPTION_THROWN',
+      'CUMULATIVE_LIMIT_USAGE'
+    ]);
+
+    const method = codeUnit.children[0];
+    expect(method.name).to.equal('AccountService.run()');
+    expect(method.lineNumber).to.equal(1);
+    expect(method.duration).to.equal(13000);
+    expect(method.children.map((e) => e.type)).to.deep.equal([
+      'SOQL_EXECUTE_BEGIN',
+      'LIMIT_USAGE',
+      'DML_BEGIN',
+      'USER_DEBUG'
+    ]);
+  });
+
+  it('should extract event details', () => {
+    const events = flattenLogEvents(parseLog(sampleLog).events);
+    const byType = (type: string) => events.find((e) => e.type === type);
+
+    const soql = byType('SOQL_EXECUTE_BEGIN');
+    expect(soql.name).to.equal("SELECT Id FROM Account WHERE Name = 'a|b'");
+    expect(soql.rows).to.equal(2);
+    expect(soql.duration).to.equal(4000);
+
+    const dml = byType('DML_BEGIN');
+    expect(dml.name).to.equal('Update');
+    expect(dml.sObjectType).to.equal('Account');
+    expect(dml.rows).to.equal(2);
+
+    const debug = byType('USER_DEBUG');
+    expect(debug.lineNumber).to.equal(6);
+    expect(debug.level).to.equal('DEBUG');
+    expect(debug.message).to.equal('first line|with pipe\nsecond line');
+
+    expect(byType('EXCEPTION_THROWN').message).to.equal(
+      'System.NullPointerException: Attempt to de-reference a null object'
+    );
+    expect(byType('LIMIT_USAGE').limitUsage).to.deep.equal({
+      name: 'SOQL',
+      used: 1,
+      max: 100
+    });
+    expect(byType('LIMIT_USAGE_FOR_NS').text).to.contain(
+      'Number of SOQL queries: 1 out of 100'
+    );
+  });
+
+  it('should keep events of truncated blocks', () => {
+    const parsed = parseLog(
+      [
+        '12:00:00.0 (1000)|CODE_UNIT_STARTED|[EXTERNAL]|MyTrigger on Account',
+        '12:00:00.0 (2000)|METHOD_ENTRY|[1]|01pxx00000000AB|Handler.run()',
+        '12:00:00.0 (3000)|CODE_UNIT_FINISHED|MyTrigger on Account',
+        '12:00:00.0 (4000)|METHOD_EXIT|[1]|01pxx00000000AB|Handler.run()'
+      ].join('\n')
+    );
+
+    expect(parsed.apiVersion).to.be.undefined;
+    expect(parsed.events.map((e) => e.type)).to.deep.equal([
+      'CODE_UNIT_STARTED',
+      'METHOD_EXIT'
+    ]);
+    expect(parsed.events[0].duration).to.equal(2000);
+    expect(parsed.events[0].children[0].duration).to.be.undefined;
+  });
+
+  it('should return no events for an empty log', () => {
+    expect(parseLog('')).to.deep.equal({ logLevels: {}, events: [] });
+  });
+});
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+import { expect } from 'chai';
+import {
+  profileLog,
+  toCollapsedStacks,
+  toSpeedscope
+} from '../../src/logs/logProfiler';
+import { sampleLog } from './testLogs';
+
+const recursiveLog = [
+  '12:00:00.0 (0)|CODE_UNIT_STARTED|[EXTERNAL]|execute_anonymous_apex',
+  '12:00:00.0 (100)|METHOD_ENTRY|[1]|01pxx00000000AB|Fib.calc(Integer)',
+  '12:00:00.0 (200)|METHOD_ENTRY|[4]|01pxx00000000AB|Fib.calc(Integer)',
+  '12:00:00.0 (500)|METHOD_EXIT|[4]|01pxx00000000AB|Fib.calc(Integer)',
+  '12:00:00.0 (600)|CONSTRUCTOR_ENTRY|[5]|01pxx00000000AC|<init>()|Cache',
+  '12:00:00.0 (700)|CONSTRUCTOR_EXIT|[5]|01pxx00000000AC|<init>()|Cache',
+  '12:00:00.0 (900)|METHOD_EXIT|[1]|01pxx00000000AB|Fib.calc(Integer)',
+  '12:00:00.0 (1000)|CODE_UNIT_FINISHED|execute_anonymous_apex'
+].join('\n');
+
+describe('Apex Log Profiler', () => {
+  it('should aggregate self and total time per method', () => {
+    expect(profileLog(sampleLog)).to.deep.equal({
+      totalTime: 18000,
+      methods: [
+        {
+          name: 'AccountService.run()',
+          calls: 1,
+          totalTime: 13000,
+          selfTime: 13000
+        },
+        {
+          name: 'execute_anonymous_apex',
+          calls: 1,
+          totalTime: 18000,
+          selfTime: 5000
+        }
+      ]
+    });
+  });
+
+  it('should count the total time of recursive calls once', () => {
+    const profile = profileLog(recursiveLog);
+    const calc = profile.methods.find((m) => m.name === 'Fib.calc(Integer)');
+    expect(calc).to.deep.equal({
+      name: 'Fib.calc(Integer)',
+      calls: 2,
+      totalTime: 800,
+      selfTime: 700
+    });
+    expect(profile.methods.find((m) => m.name === 'Cache').calls).to.equal(1);
+  });
+
+  it('should close truncated blocks at their last event', () => {
+    const profile = profileLog(
+      [
+        '12:00:00.0 (0)|CODE_UNIT_STARTED|[EXTERNAL]|execute_anonymous_apex',
+        '12:00:00.0 (100)|METHOD_ENTRY|[1]|01pxx00000000AB|Slow.run()',
+        '12:00:00.0 (400)|USER_DEBUG|[2]|DEBUG|still running'
+      ].join('\n')
+    );
+    expect(profile.totalTime).to.equal(400);
+    expect(profile.methods[0]).to.deep.equal({
+      name: 'Slow.run()',
+      calls: 1,
+      totalTime: 300,
+      selfTime: 300
+    });
+  });
+
+  it('should write collapsed stacks', () => {
+    expect(toCollapsedStacks(sampleLog)).to.equal(
+      [
+        'execute_anonymous_apex 5000',
+        'execute_anonymous_apex;AccountService.run() 13000'
+      ].join('\n')
+    );
+    expect(toCollapsedStacks(recursiveLog)).to.equal(
+      [
+        'execute_anonymous_apex 200',
+        'execute_anonymous_apex;Fib.calc(Integer) 400',
+        'execute_anonymous_apex;Fib.calc(Integer);Fib.calc(Integer) 300',
+        'execute_anonymous_apex;Fib.calc(Integer);Cache 100'
+      ].join('\n')
+    );
+  });
+
+  it('should write an evented speedscope profile', () => {
+    expect(toSpeedscope(recursiveLog, '07Lxx00000cxy6YUAQ')).to.deep.equal({
+      $schema: 'https://www.speedscope.app/file-format-schema.json',
+      name: '07Lxx00000cxy6YUAQ',
+      exporter: '@salesforce/apex-node',
+      shared: {
+        frames: [
+          { name: 'execute_anonymous_apex' },
+          { name: 'Fib.calc(Integer)' },
+          { name: 'Cache' }
+        ]
+      },
+      profiles: [
+        {
+          type: 'evented',
+          name: '07Lxx00000cxy6YUAQ',
+          unit: 'nanoseconds',
+          startValue: 0,
+          endValue: 1000,
+          events: [
+            { type: 'O', frame: 0, at: 0 },
+            { type: 'O', frame: 1, at: 100 },
+            { type: 'O', frame: 1, at: 200 },
+            { type: 'C', frame: 1, at: 500 },
+            { type: 'O', frame: 2, at: 600 },
+            { type: 'C', frame: 2, at: 700 },
+            { type: 'C', frame: 1, at: 900 },
+            { type: 'C', frame: 0, at: 1000 }
+          ]
+        }
+      ]
+    });
+  });
+});
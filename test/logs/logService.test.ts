@@ -10,10 +10,13 @@ import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
 import { expect, assert } from 'chai';
 import fs from 'fs';
 import { createSandbox, SinonSandbox, SinonStub } from 'sinon';
+import { Duration } from '@salesforce/kit';
 import { LogService } from '../../src/logs/logService';
 import path from 'path';
+import os from 'os';
 import stream from 'stream';
 import { LogRecord, LogResult } from '../../src/logs/types';
+import { nls } from '../../src/i18n';
 
 type LogQueryResult = {
   records: LogRecord[];
@@ -191,6 +194,50 @@ describe('Apex Log Service Tests', () => {
     expect(response.length).to.eql(25);
   });
 
+  it('should parse logs when requested', async () => {
+    const apexLogGet = new LogService(mockConnection);
+    toolingRequestStub
+      .onFirstCall()
+      .resolves(
+        '60.0 APEX_CODE,FINEST\n12:00:00.0 (1000)|USER_DEBUG|[1]|DEBUG|hello'
+      );
+    const response = await apexLogGet.getLogs({
+      logId: '07L5w00005PGdTnEAL',
+      parse: true
+    });
+    expect(response[0].parsed.apiVersion).to.equal('60.0');
+    expect(response[0].parsed.events[0].message).to.equal('hello');
+  });
+
+  it('should write profiles next to the logs when requested', async () => {
+    const apexLogGet = new LogService(mockConnection);
+    const filePath = path.join('path', 'to', 'logs');
+    const createStreamStub = sandboxStub.stub(fs, 'createWriteStream');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    createStreamStub.returns(new stream.PassThrough() as any);
+    sandboxStub.stub(fs, 'closeSync');
+    sandboxStub.stub(fs, 'openSync');
+    toolingRequestStub
+      .onFirstCall()
+      .resolves(
+        '12:00:00.0 (0)|CODE_UNIT_STARTED|[EXTERNAL]|execute_anonymous_apex\n12:00:00.0 (100)|CODE_UNIT_FINISHED|execute_anonymous_apex'
+      );
+
+    const response = await apexLogGet.getLogs({
+      logId: '07WgsWfad',
+      outputDir: filePath,
+      profile: true
+    });
+
+    expect(response[0].parsed).to.be.undefined;
+    expect(response[0].profile.totalTime).to.equal(100);
+    expect(response[0].profilePaths).to.deep.equal([
+      path.join(filePath, '07WgsWfad.speedscope.json'),
+      path.join(filePath, '07WgsWfad.collapsed.txt')
+    ]);
+    expect(createStreamStub.callCount).to.equal(3);
+  });
+
   it('should handle invalid id', async () => {
     const apexLogGet = new LogService(mockConnection);
     toolingRequestStub.throws(new Error('invalid id'));
@@ -283,6 +330,284 @@ describe('Apex Log Service Tests', () => {
     }
   });
 
+  describe('tail', () => {
+    const streamingLogMessage = { sobject: { Id: logRecords[0].Id } };
+
+    beforeEach(() => {
+      sandboxStub.stub(LogService.prototype, 'createStreamingClient').resolves({
+        handshake: sandboxStub.stub().resolves(),
+        subscribe: sandboxStub.stub().resolves()
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any);
+      toolingRequestStub.resolves(
+        '12:00:00.0 (1000)|USER_DEBUG|[1]|DEBUG|hello\n12:00:00.0 (2000)|LIMIT_USAGE|[1]|SOQL|1|100'
+      );
+    });
+
+    it('should pass every log to the tailer without options', async () => {
+      const logService = new LogService(mockConnection);
+      const queryStub = sandboxStub.stub(mockConnection.tooling, 'query');
+      const tailer = sandboxStub.stub();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await logService.tail({} as any, tailer);
+
+      await logService.logCallback(streamingLogMessage);
+
+      expect(queryStub.called).to.be.false;
+      expect(tailer.calledOnce).to.be.true;
+      expect(tailer.args[0][0]).to.contain('LIMIT_USAGE');
+    });
+
+    it('should pass filtered logs with their record to the tailers', async () => {
+      const logService = new LogService(mockConnection);
+      const queryStub = sandboxStub
+        .stub(mockConnection.tooling, 'query')
+        //@ts-ignore
+        .resolves({ records: [logRecords[0]] });
+      const tailer = sandboxStub.stub();
+      const recordTailer = sandboxStub.stub();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await logService.tail({} as any, tailer, {
+        logUsers: ['Test User'],
+        eventTypes: ['USER_DEBUG'],
+        recordTailer
+      });
+
+      await logService.logCallback(streamingLogMessage);
+
+      expect(queryStub.args[0][0]).to.contain(
+        `WHERE Id = '${logRecords[0].Id}'`
+      );
+      const expectedLog = '12:00:00.0 (1000)|USER_DEBUG|[1]|DEBUG|hello';
+      expect(tailer.calledOnceWith(expectedLog)).to.be.true;
+      expect(recordTailer.calledOnceWith(logRecords[0], expectedLog)).to.be
+        .true;
+    });
+
+    it('should skip logs that do not match the filters', async () => {
+      const logService = new LogService(mockConnection);
+      sandboxStub
+        .stub(mockConnection.tooling, 'query')
+        //@ts-ignore
+        .resolves({ records: [logRecords[0]] });
+      const tailer = sandboxStub.stub();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await logService.tail({} as any, tailer, {
+        minDurationMilliseconds: 100
+      });
+      await logService.logCallback(streamingLogMessage);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await logService.tail({} as any, tailer, {
+        eventTypes: ['EXCEPTION_THROWN']
+      });
+      await logService.logCallback(streamingLogMessage);
+
+      expect(tailer.called).to.be.false;
+    });
+  });
+
+  describe('exportLogs', () => {
+    let outputDir: string;
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apex-log-export-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('should query log records with filters across pages', async () => {
+      const queryStub = sandboxStub
+        .stub(mockConnection.tooling, 'query')
+        //@ts-ignore
+        .resolves({
+          done: false,
+          nextRecordsUrl: 'next',
+          records: [logRecords[0]]
+        });
+      const queryMoreStub = sandboxStub
+        .stub(mockConnection.tooling, 'queryMore')
+        //@ts-ignore
+        .resolves({ done: true, records: [logRecords[1]] });
+
+      const records = await new LogService(mockConnection).queryLogRecords({
+        startTime: '2020-10-13T00:00:00.000Z',
+        endTime: new Date('2020-10-14T00:00:00.000Z'),
+        logUsers: ['Test User'],
+        operations: ['API']
+      });
+
+      expect(records).to.deep.equal(logRecords);
+      expect(queryStub.args[0][0]).to.equal(
+        "SELECT Id, Application, DurationMilliseconds, Location, LogLength, LogUser.Name, Operation, Request, StartTime, Status FROM ApexLog WHERE StartTime >= 2020-10-13T00:00:00Z AND StartTime < 2020-10-14T00:00:00Z AND LogUser.Name IN ('Test User') AND Operation IN ('API') ORDER BY StartTime ASC"
+      );
+      expect(queryMoreStub.calledOnceWith('next')).to.be.true;
+    });
+
+    it('should download logs, skip existing ones and write a manifest', async () => {
+      sandboxStub
+        .stub(LogService.prototype, 'queryLogRecords')
+        .resolves(logRecords);
+      fs.writeFileSync(path.join(outputDir, `${logRecords[0].Id}.log`), 'old');
+      const streamStub = sandboxStub
+        .stub(LogService.prototype, 'toolingRequestStream')
+        .callsFake(() => stream.Readable.from(['new log']));
+
+      const result = await new LogService(mockConnection).exportLogs({
+        outputDir,
+        concurrency: 1
+      });
+
+      expect(streamStub.calledOnce).to.be.true;
+      expect(result.logs.map((l) => l.status)).to.deep.equal([
+        'skipped',
+        'downloaded'
+      ]);
+      expect(result.logs[1]).to.deep.equal({
+        logId: logRecords[1].Id,
+        logPath: path.join(outputDir, `${logRecords[1].Id}.log`),
+        startTime: logRecords[1].StartTime,
+        logUser: 'Test User2',
+        operation: 'API',
+        logLength: 450,
+        status: 'downloaded'
+      });
+      expect(
+        fs.readFileSync(path.join(outputDir, `${logRecords[1].Id}.log`), 'utf8')
+      ).to.equal('new log');
+      expect(result.manifestPath).to.equal(
+        path.join(outputDir, 'manifest.json')
+      );
+      expect(
+        JSON.parse(fs.readFileSync(result.manifestPath, 'utf8'))
+      ).to.deep.equal(result.logs);
+    });
+
+    it('should report failed downloads without leaving partial files', async () => {
+      sandboxStub
+        .stub(LogService.prototype, 'queryLogRecords')
+        .resolves([logRecords[0]]);
+      sandboxStub.stub(LogService.prototype, 'toolingRequestStream').callsFake(
+        () =>
+          new stream.Readable({
+            read() {
+              this.destroy(new Error('connection reset'));
+            }
+          })
+      );
+
+      const result = await new LogService(mockConnection).exportLogs({
+        outputDir
+      });
+
+      expect(result.logs[0].status).to.equal('failed');
+      expect(result.logs[0].error).to.equal('connection reset');
+      expect(fs.readdirSync(outputDir)).to.deep.equal(['manifest.json']);
+    });
+  });
+
+  describe('deleteLogs', () => {
+    it('should report the logs to delete on a dry run', async () => {
+      sandboxStub
+        .stub(LogService.prototype, 'queryLogRecords')
+        .resolves(logRecords);
+      const destroyStub = sandboxStub.stub(mockConnection, 'destroy');
+
+      const result = await new LogService(mockConnection).deleteLogs({
+        logUsers: ['Test User'],
+        dryRun: true
+      });
+
+      expect(destroyStub.called).to.be.false;
+      expect(result).to.deep.equal({
+        dryRun: true,
+        matched: 2,
+        totalLogLength: 900,
+        deleted: [],
+        deletedLogLength: 0,
+        failures: []
+      });
+    });
+
+    it('should delete logs older than the given age in batches', async () => {
+      sandboxStub.useFakeTimers(new Date('2020-10-20T00:00:00.000Z'));
+      const queryStub = sandboxStub
+        .stub(LogService.prototype, 'queryLogRecords')
+        .resolves(logRecords);
+      const destroyStub = sandboxStub.stub(mockConnection, 'destroy');
+      destroyStub.onFirstCall().resolves([
+        {
+          success: false,
+          errors: [
+            { errorCode: 'ENTITY_IS_DELETED', message: 'entity is deleted' }
+          ]
+        }
+      ]);
+      destroyStub
+        .onSecondCall()
+        .resolves([{ success: true, id: logRecords[1].Id, errors: [] }]);
+
+      const result = await new LogService(mockConnection).deleteLogs({
+        olderThan: Duration.days(7),
+        batchSize: 1
+      });
+
+      expect(queryStub.args[0][0].endTime).to.deep.equal(
+        new Date('2020-10-13T00:00:00.000Z')
+      );
+      expect(destroyStub.args[0]).to.deep.equal([
+        'ApexLog',
+        [logRecords[0].Id],
+        { allOrNone: false }
+      ]);
+      expect(result).to.deep.equal({
+        dryRun: false,
+        matched: 2,
+        totalLogLength: 900,
+        deleted: [logRecords[1].Id],
+        deletedLogLength: 450,
+        failures: [{ logId: logRecords[0].Id, message: 'entity is deleted' }]
+      });
+    });
+
+    it('should reject batch sizes outside 1 to 200', async () => {
+      const queryStub = sandboxStub.stub(
+        LogService.prototype,
+        'queryLogRecords'
+      );
+      for (const batchSize of [0, -1, NaN, 1.5, 201]) {
+        try {
+          await new LogService(mockConnection).deleteLogs({ batchSize });
+          expect.fail('Expected an error');
+        } catch (e) {
+          expect(e.message).to.equal(
+            nls.localize('logDeleteBatchSizeError', '200')
+          );
+        }
+      }
+      expect(queryStub.called).to.be.false;
+    });
+
+    it('should report every log of a failed batch', async () => {
+      sandboxStub
+        .stub(LogService.prototype, 'queryLogRecords')
+        .resolves(logRecords);
+      sandboxStub
+        .stub(mockConnection, 'destroy')
+        .rejects(new Error('REQUEST_LIMIT_EXCEEDED'));
+
+      const result = await new LogService(mockConnection).deleteLogs({});
+
+      expect(result.deleted).to.deep.equal([]);
+      expect(result.failures).to.deep.equal([
+        { logId: logRecords[0].Id, message: 'REQUEST_LIMIT_EXCEEDED' },
+        { logId: logRecords[1].Id, message: 'REQUEST_LIMIT_EXCEEDED' }
+      ]);
+    });
+  });
+
   describe('getLogRecords', async () => {
     it('should return log records given a specific number of logs', async () => {
       const numberOfLogs = 2;
@@ -323,4 +648,21 @@ describe('Apex Log Service Tests', () => {
       expect(queryStub.calledWith(apexLogQuery)).to.be.true;
     });
   });
+
+  describe('getLogRecord', () => {
+    it('should escape the log id', async () => {
+      const queryStub = sandboxStub
+        .stub(mockConnection.tooling, 'query')
+        .resolves({ done: true, totalSize: 0, records: [] });
+
+      const record = await new LogService(mockConnection).getLogRecord(
+        "07L' OR Id != '"
+      );
+
+      expect(record).to.be.undefined;
+      expect(queryStub.firstCall.args[0]).to.contain(
+        "WHERE Id = '07L\\' OR Id != \\''"
+      );
+    });
+  });
 });
@@ -0,0 +1,43 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+
+export const sampleLog = `60.0 APEX_CODE,FINEST;APEX_PROFILING,INFO;DB,INFO
+Execute Anonymous: AccountService.run();
+12:00:00.0 (1000)|USER_INFO|[EXTERNAL]|005xx000001Sv6A|test@example.com|(GMT-07:00) Pacific Daylight Time|GMT-07:00
+12:00:00.0 (2000)|EXECUTION_STARTED
+12:00:00.0 (3000)|CODE_UNIT_STARTED|[EXTERNAL]|execute_anonymous_apex
+12:00:00.0 (4000)|METHOD_ENTRY|[1]|01pxx00000000AB|AccountService.run()
+12:00:00.0 (5000)|SOQL_EXECUTE_BEGIN|[3]|Aggregations:0|SELECT Id FROM Account WHERE Name = 'a|b'
+12:00:00.0 (9000)|SOQL_EXECUTE_END|[3]|Rows:2
+12:00:00.0 (10000)|LIMIT_USAGE|[3]|SOQL|1|100
+12:00:00.0 (11000)|DML_BEGIN|[5]|Op:Update|Type:Account|Rows:2
+12:00:00.0 (15000)|DML_END|[5]
+12:00:00.0 (16000)|USER_DEBUG|[6]|DEBUG|first line|with pipe
+second line
+12:00:00.0 (17000)|METHOD_EXIT|[1]|01pxx00000000AB|AccountService.run()
+12:00:00.0 (18000)|EXCEPTION_THROWN|[2]|System.NullPointerException: Attempt to de-reference a null object
+12:00:00.0 (19000)|CUMULATIVE_LIMIT_USAGE
+12:00:00.0 (19000)|LIMIT_USAGE_FOR_NS|(default)|
+  Number of SOQL queries: 1 out of 100
+  Number of query rows: 2 out of 50000
+  Number of SOSL queries: 0 out of 20
+  Number of DML statements: 1 out of 150
+  Number of Publish Immediate DML: 0 out of 150
+  Number of DML rows: 2 out of 10000
+  Maximum CPU time: 12 out of 10000
+  Maximum heap size: 2048 out of 6000000
+  Number of callouts: 0 out of 100
+  Number of Email Invocations: 0 out of 10
+  Number of future calls: 0 out of 50
+  Number of queueable jobs added to the queue: 0 out of 50
+  Number of Mobile Apex push calls: 0 out of 10
+
+12:00:00.0 (20000)|CUMULATIVE_LIMIT_USAGE_END
+
+12:00:00.0 (21000)|CODE_UNIT_FINISHED|execute_anonymous_apex
+12:00:00.0 (22000)|EXECUTION_FINISHED
+`;
@@ -10,7 +10,10 @@ import { expect } from 'chai';
 import { pipeline, Writable } from 'node:stream';
 import { getTestData, successResult } from './testResults';
 import { fail } from 'assert';
-import { ApexTestResultOutcome } from '../../src/tests/types';
+import {
+  ApexTestResultOutcome,
+  TestRunComparison
+} from '../../src/tests/types';
 
 const { testResults } = getTestData();
 
@@ -652,4 +655,70 @@ describe('MarkdownTextFormatTransformer', () => {
       });
     });
   });
+
+  describe('comparison', () => {
+    const comparison: TestRunComparison = {
+      baselineTestRunId: '707000000000001',
+      currentTestRunId: '707000000000002',
+      newlyFailing: [
+        {
+          fullName: 'MyTest.testOne',
+          baselineOutcome: ApexTestResultOutcome.Pass,
+          currentOutcome: ApexTestResultOutcome.Fail
+        }
+      ],
+      newlyPassing: [],
+      stillFailing: [],
+      added: [],
+      removed: [],
+      slower: [
+        {
+          fullName: 'MyTest.testTwo',
+          baselineRunTime: 100,
+          currentRunTime: 2000
+        }
+      ],
+      coverageDeltas: [
+        {
+          name: 'MyClass',
+          baselinePercentage: 80,
+          currentPercentage: 70,
+          delta: -10
+        }
+      ]
+    };
+
+    it('should render the changes since the baseline in markdown', (done) => {
+      const reporter = new MarkdownTextFormatTransformer(testResults, {
+        format: 'markdown',
+        comparison
+      });
+      createWritableAndPipeline(reporter, (result) => {
+        expect(result).to.contain('## 🔄 Changes Since 707000000000001');
+        expect(result).to.contain('### ❌ Newly Failing (1)');
+        expect(result).to.contain('- **MyTest.testOne** - Pass → Fail');
+        expect(result).to.contain('- **MyTest.testTwo** - 100ms → 2s');
+        expect(result).to.contain('- **MyClass** - 80% → 70% (-10)');
+        expect(result).to.not.contain('Newly Passing');
+        done();
+      });
+    });
+
+    it('should render the changes since the baseline in text', (done) => {
+      const reporter = new MarkdownTextFormatTransformer(testResults, {
+        format: 'text',
+        comparison: {
+          ...comparison,
+          newlyFailing: [],
+          slower: [],
+          coverageDeltas: []
+        }
+      });
+      createWritableAndPipeline(reporter, (result) => {
+        expect(result).to.contain('Changes Since 707000000000001:');
+        expect(result).to.contain('No changes since the baseline run.');
+        done();
+      });
+    });
+  });
 });
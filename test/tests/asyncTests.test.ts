@@ -4,7 +4,7 @@
  * Licensed under the BSD 3-Clause license.
  * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
  */
-import { Connection, Logger } from '@salesforce/core';
+import { Connection, Logger, PollingClient } from '@salesforce/core';
 import { elapsedTime } from '../../src/utils';
 import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
 import { assert, expect } from 'chai';
@@ -35,7 +35,10 @@ import {
   ApexTestQueueItemRecord,
   ResultFormat,
   TestRunIdResult,
-  TestCategory
+  TestCategory,
+  TestResult,
+  ApexTestResultData,
+  AsyncTestArrayConfiguration
 } from '../../src/tests/types';
 import { StreamingClient } from '../../src/streaming';
 import { fail } from 'assert';
@@ -61,6 +64,8 @@ import { AsyncTests } from '../../src/tests/asyncTests';
 import { QUERY_RECORD_LIMIT } from '../../src/tests/constants';
 import { Writable } from 'node:stream';
 import { Duration } from '@salesforce/kit';
+import { LogService } from '../../src/logs/logService';
+import { sampleLog } from '../logs/testLogs';
 
 let mockConnection: Connection;
 let sandboxStub: SinonSandbox;
@@ -1495,6 +1500,272 @@ describe('Run Apex tests asynchronously', () => {
     });
   });
 
+  describe('Limit Usage', () => {
+    it('should attach limit usage from the debug logs of tests', async () => {
+      const result = structuredClone(testResultData);
+      result.tests.push({
+        ...structuredClone(result.tests[0]),
+        id: '07Mxx00000F2Xx6UAG',
+        methodName: 'testWithoutLog'
+      });
+      result.tests[0].apexLogId = '07Lxx00000cxy6YUAQ';
+      const getLogByIdStub = sandboxStub
+        .stub(LogService.prototype, 'getLogById')
+        .resolves({ log: sampleLog });
+
+      await new AsyncTests(mockConnection).attachLimitUsage(result);
+
+      expect(getLogByIdStub.calledOnceWith('07Lxx00000cxy6YUAQ')).to.be.true;
+      expect(result.tests[0].limitUsage[0].soqlQueries).to.deep.equal({
+        used: 1,
+        max: 100
+      });
+      expect(result.tests[1].limitUsage).to.be.undefined;
+    });
+
+    it('should download a bounded number of debug logs at a time', async () => {
+      const result = structuredClone(testResultData);
+      result.tests = Array.from({ length: 12 }, (_, i) => ({
+        ...structuredClone(testResultData.tests[0]),
+        id: `07Mxx00000F2X${i}`,
+        apexLogId: `07Lxx00000cxy${i}`
+      }));
+      let running = 0;
+      let maxRunning = 0;
+      sandboxStub
+        .stub(LogService.prototype, 'getLogById')
+        .callsFake(async () => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await new Promise((resolve) => setImmediate(resolve));
+          running--;
+          return { log: sampleLog };
+        });
+
+      await new AsyncTests(mockConnection).attachLimitUsage(result);
+
+      expect(maxRunning).to.equal(5);
+      expect(result.tests.every((test) => test.limitUsage)).to.be.true;
+    });
+
+    it('should skip tests whose debug log cannot be retrieved', async () => {
+      const result = structuredClone(testResultData);
+      result.tests[0].apexLogId = '07Lxx00000cxy6YUAQ';
+      sandboxStub
+        .stub(LogService.prototype, 'getLogById')
+        .rejects(new Error('The requested resource does not exist'));
+
+      await new AsyncTests(mockConnection).attachLimitUsage(result);
+
+      expect(result.tests[0].limitUsage).to.be.undefined;
+    });
+  });
+
+  describe('Rerun Failed Tests', () => {
+    const failedRunResult = (): TestResult => {
+      const result = structuredClone(testResultData);
+      const passed = result.tests[0];
+      const failed = (methodName: string): ApexTestResultData => ({
+        ...structuredClone(passed),
+        id: `07Mxx00000${methodName}`,
+        methodName,
+        fullName: `t3st.TestLogger.${methodName}`,
+        outcome: ApexTestResultOutcome.Fail,
+        message: 'System.DmlException: UNABLE_TO_LOCK_ROW'
+      });
+      result.tests.push(failed('testLock'), failed('testBroken'));
+      Object.assign(result.summary, {
+        outcome: 'Failed',
+        testsRan: 3,
+        passing: 1,
+        failing: 2
+      });
+      return result;
+    };
+
+    const rerunResult = (
+      tests: { methodName: string; outcome: ApexTestResultOutcome }[]
+    ): TestResult => ({
+      ...structuredClone(testResultData),
+      tests: tests.map(({ methodName, outcome }) => ({
+        ...structuredClone(testResultData.tests[0]),
+        id: `07Mxx00001${methodName}`,
+        methodName,
+        fullName: `t3st.TestLogger.${methodName}`,
+        outcome
+      }))
+    });
+
+    it('should mark tests that pass on a later attempt as flaky', async () => {
+      const result = failedRunResult();
+      const runTestsStub = sandboxStub.stub(AsyncTests.prototype, 'runTests');
+      runTestsStub.onFirstCall().resolves(
+        rerunResult([
+          { methodName: 'testLock', outcome: ApexTestResultOutcome.Pass },
+          { methodName: 'testBroken', outcome: ApexTestResultOutcome.Fail }
+        ])
+      );
+      runTestsStub
+        .onSecondCall()
+        .resolves(
+          rerunResult([
+            { methodName: 'testBroken', outcome: ApexTestResultOutcome.Fail }
+          ])
+        );
+
+      await new AsyncTests(mockConnection).rerunFailedTests(result, {
+        retryFailedTests: 2
+      });
+
+      expect(runTestsStub.callCount).to.equal(2);
+      expect(runTestsStub.firstCall.args[0]).to.deep.equal({
+        tests: [
+          { className: 't3st.TestLogger', testMethods: ['testLock'] },
+          { className: 't3st.TestLogger', testMethods: ['testBroken'] }
+        ],
+        testLevel: TestLevel.RunSpecifiedTests,
+        skipCodeCoverage: true
+      });
+      expect(
+        result.tests.map((test) => [
+          test.methodName,
+          test.outcome,
+          test.attempts,
+          !!test.flaky
+        ])
+      ).to.deep.equal([
+        ['testLoggerLog', 'Pass', 1, false],
+        ['testLock', 'Pass', 2, true],
+        ['testBroken', 'Fail', 3, false]
+      ]);
+      expect(result.summary).to.include({
+        outcome: 'Failed',
+        passing: 2,
+        failing: 1,
+        flaky: 1,
+        passRate: '67%',
+        failRate: '33%'
+      });
+    });
+
+    it('should recompute the summary from the merged tests', async () => {
+      const result = failedRunResult();
+      result.tests.push({
+        ...structuredClone(result.tests[0]),
+        methodName: 'testSkipped',
+        fullName: 't3st.TestLogger.testSkipped',
+        outcome: ApexTestResultOutcome.Skip,
+        runTime: 0
+      });
+      Object.assign(result.summary, {
+        testsRan: 3,
+        testSetupTimeInMs: 100,
+        testExecutionTimeInMs: 24,
+        testTotalTimeInMs: 24,
+        commandTimeInMs: 2000
+      });
+      const rerun = rerunResult([
+        { methodName: 'testLock', outcome: ApexTestResultOutcome.Pass },
+        { methodName: 'testBroken', outcome: ApexTestResultOutcome.Pass }
+      ]);
+      rerun.tests[0].runTime = 30;
+      rerun.tests[1].runTime = 40;
+      sandboxStub.stub(AsyncTests.prototype, 'runTests').resolves(rerun);
+
+      await new AsyncTests(mockConnection).rerunFailedTests(result, {
+        retryFailedTests: 1
+      });
+
+      expect(result.summary).to.include({
+        outcome: 'Passed',
+        testsRan: 4,
+        passing: 3,
+        failing: 0,
+        skipped: 1,
+        passRate: '75%',
+        failRate: '0%',
+        skipRate: '25%',
+        testSetupTimeInMs: 100,
+        testExecutionTimeInMs: 78,
+        testTotalTimeInMs: 178
+      });
+      expect(result.summary.commandTimeInMs).to.be.at.least(2000);
+    });
+
+    it('should rerun each failed test in its own run when serial', async () => {
+      const result = failedRunResult();
+      const runTestsStub = sandboxStub.stub(AsyncTests.prototype, 'runTests');
+      runTestsStub
+        .onFirstCall()
+        .resolves(
+          rerunResult([
+            { methodName: 'testLock', outcome: ApexTestResultOutcome.Pass }
+          ])
+        );
+      runTestsStub
+        .onSecondCall()
+        .resolves(
+          rerunResult([
+            { methodName: 'testBroken', outcome: ApexTestResultOutcome.Pass }
+          ])
+        );
+
+      await new AsyncTests(mockConnection).rerunFailedTests(result, {
+        retryFailedTests: 1,
+        retrySerially: true
+      });
+
+      expect(runTestsStub.callCount).to.equal(2);
+      expect(
+        (runTestsStub.secondCall.args[0] as AsyncTestArrayConfiguration).tests
+      ).to.deep.equal([
+        { className: 't3st.TestLogger', testMethods: ['testBroken'] }
+      ]);
+      expect(result.summary).to.include({
+        outcome: 'Passed',
+        passing: 3,
+        failing: 0,
+        flaky: 2
+      });
+    });
+
+    it('should rerun failed tests after an async run when requested', async () => {
+      const asyncTests = new AsyncTests(mockConnection);
+      toolingRequestStub.resolves(testRunId);
+      sandboxStub.stub(PollingClient, 'create').resolves({
+        subscribe: async () => ({ done: true, totalSize: 0, records: [] as [] })
+      } as never);
+      sandboxStub.stub(asyncTests, 'checkRunStatus').resolves({
+        testsComplete: true,
+        testRunSummary: {} as never
+      });
+      sandboxStub
+        .stub(asyncTests, 'formatAsyncResults')
+        .resolves(failedRunResult());
+      const rerunStub = sandboxStub
+        .stub(asyncTests, 'rerunFailedTests')
+        .resolves();
+
+      await asyncTests.runTests(
+        {
+          tests: [{ className: 'TestLogger' }],
+          testLevel: TestLevel.RunSpecifiedTests
+        },
+        false,
+        false,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { retryFailedTests: 1 }
+      );
+
+      expect(rerunStub.calledOnce).to.be.true;
+      expect(rerunStub.firstCall.args[1]).to.deep.equal({
+        retryFailedTests: 1
+      });
+    });
+  });
+
   describe('Polling Client Timeout', () => {
     it('should return test run ID when polling client times out', async () => {
       const requestOptions: AsyncTestConfiguration = {
@@ -15,9 +15,14 @@ import {
   ApexOrgWideCoverage,
   ApexCodeCoverage,
   ApexCodeCoverageRecord,
-  ApexCodeCoverageAggregateRecord
+  ApexCodeCoverageAggregateRecord,
+  ApexTestImpact,
+  ApexTestImpactRecord
 } from '../../src/tests/types';
-import { QUERY_RECORD_LIMIT } from '../../src/tests/constants';
+import {
+  QUERY_CHAR_LIMIT,
+  QUERY_RECORD_LIMIT
+} from '../../src/tests/constants';
 
 let mockConnection: Connection;
 let sandboxStub: SinonSandbox;
@@ -509,4 +514,106 @@ describe('Get code coverage results', () => {
       idCountOfFirstCall + idCountOfSecondCall + idCountOfThirdCall
     ).to.equal(recordCount);
   });
+
+  describe('Test impact', () => {
+    const impactRecords: ApexTestImpactRecord[] = [
+      {
+        ApexTestClass: { Name: 'AccountServiceTest', NamespacePrefix: null },
+        ApexClassOrTrigger: { Name: 'AccountService' },
+        TestMethodName: 'testUpdate',
+        Coverage: { coveredLines: [10, 11, 12], uncoveredLines: [20] }
+      },
+      {
+        ApexTestClass: { Name: 'AccountServiceTest', NamespacePrefix: null },
+        ApexClassOrTrigger: { Name: 'AccountService' },
+        TestMethodName: 'testCreate',
+        Coverage: { coveredLines: [1, 2, 3], uncoveredLines: [20] }
+      },
+      {
+        ApexTestClass: { Name: 'TriggerTest', NamespacePrefix: 'ns' },
+        ApexClassOrTrigger: { Name: 'AccountTrigger' },
+        TestMethodName: 'testInsert',
+        Coverage: { coveredLines: [1], uncoveredLines: [] }
+      }
+    ];
+
+    beforeEach(() => {
+      toolingQueryStub.resolves({
+        done: true,
+        totalSize: impactRecords.length,
+        records: impactRecords
+      } as ApexTestImpact);
+    });
+
+    it('should return the test methods covering the changed classes', async () => {
+      const codeCov = new CodeCoverage(mockConnection);
+
+      const result = await codeCov.getImpactedTests([
+        { name: 'AccountService' },
+        { name: 'AccountTrigger' },
+        { name: 'Unused' }
+      ]);
+
+      expect(toolingQueryStub.firstCall.args[0]).to.equal(
+        "SELECT ApexTestClass.Name, ApexTestClass.NamespacePrefix, ApexClassOrTrigger.Name, TestMethodName, Coverage FROM ApexCodeCoverage WHERE ApexClassOrTrigger.Name IN ('AccountService','AccountTrigger','Unused')"
+      );
+      expect(result).to.deep.equal({
+        testItems: [
+          {
+            className: 'AccountServiceTest',
+            testMethods: ['testCreate', 'testUpdate']
+          },
+          { className: 'ns.TriggerTest', testMethods: ['testInsert'] }
+        ],
+        untestedChanges: ['Unused']
+      });
+    });
+
+    it('should only return the test methods covering changed lines', async () => {
+      const codeCov = new CodeCoverage(mockConnection);
+
+      const result = await codeCov.getImpactedTests([
+        { name: 'AccountService', lines: [{ start: 11, end: 20 }] },
+        { name: 'AccountTrigger', lines: [{ start: 5, end: 6 }] }
+      ]);
+
+      expect(result).to.deep.equal({
+        testItems: [
+          { className: 'AccountServiceTest', testMethods: ['testUpdate'] }
+        ],
+        untestedChanges: ['AccountTrigger']
+      });
+    });
+
+    it('should quote and chunk the changed class names', async () => {
+      const codeCov = new CodeCoverage(mockConnection);
+      const names = Array.from({ length: 400 }, (_, i) =>
+        `AccountServiceWithAVeryLongName${i}`.padEnd(40, 'x')
+      );
+
+      await codeCov.getImpactedTests([
+        { name: "O'Brien" },
+        ...names.map((name) => ({ name }))
+      ]);
+
+      expect(toolingQueryStub.firstCall.args[0]).to.contain("IN ('O\\'Brien',");
+      expect(toolingQueryStub.callCount).to.be.greaterThan(1);
+      for (const call of toolingQueryStub.getCalls()) {
+        expect(call.args[0].length).to.be.at.most(QUERY_CHAR_LIMIT);
+      }
+      const queried = toolingQueryStub
+        .getCalls()
+        .flatMap((call) => /IN \((.*)\)$/.exec(call.args[0])[1].split(','));
+      expect(queried).to.have.length(401);
+    });
+
+    it('should not query without changes', async () => {
+      const codeCov = new CodeCoverage(mockConnection);
+
+      const result = await codeCov.getImpactedTests([]);
+
+      expect(result).to.deep.equal({ testItems: [], untestedChanges: [] });
+      expect(toolingQueryStub.called).to.be.false;
+    });
+  });
 });
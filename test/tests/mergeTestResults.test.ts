@@ -0,0 +1,235 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { pipeline, Writable } from 'node:stream';
+import { MarkdownTextFormatTransformer } from '../../src';
+import { nls } from '../../src/i18n';
+import { mergeTestResults } from '../../src/tests/mergeTestResults';
+import {
+  ApexTestResultOutcome,
+  ApexTestSetupData,
+  CodeCoverageResult,
+  TestResult
+} from '../../src/tests/types';
+import { testResultData } from '../testData';
+
+const runResult = (
+  testRunId: string,
+  testStartTime: string,
+  tests: [string, ApexTestResultOutcome][],
+  codecoverage?: CodeCoverageResult[]
+): TestResult => ({
+  ...structuredClone(testResultData),
+  summary: {
+    ...structuredClone(testResultData.summary),
+    testRunId,
+    testStartTime,
+    testSetupTimeInMs: 5,
+    testExecutionTimeInMs: 100,
+    testTotalTimeInMs: 105,
+    commandTimeInMs: testRunId.endsWith('1') ? 2000 : 3000,
+    orgWideCoverage: testRunId.endsWith('1') ? '80%' : '81%'
+  },
+  tests: tests.map(([methodName, outcome]) => ({
+    ...structuredClone(testResultData.tests[0]),
+    methodName,
+    fullName: `t3st.TestLogger.${methodName}`,
+    outcome
+  })),
+  codecoverage
+});
+
+const coverage = (
+  apexId: string,
+  coveredLines: number[],
+  uncoveredLines: number[]
+): CodeCoverageResult => ({
+  apexId,
+  name: 'AccountService',
+  type: 'ApexClass',
+  numLinesCovered: coveredLines.length,
+  numLinesUncovered: uncoveredLines.length,
+  percentage: '0%',
+  coveredLines,
+  uncoveredLines
+});
+
+describe('Merge test results', () => {
+  it('should recompute the summary of the combined tests', () => {
+    const merged = mergeTestResults([
+      runResult('707xx0000000001', '2026-01-01T10:05:00.000Z', [
+        ['testA', ApexTestResultOutcome.Pass],
+        ['testB', ApexTestResultOutcome.Fail]
+      ]),
+      runResult('707xx0000000002', '2026-01-01T10:00:00.000Z', [
+        ['testC', ApexTestResultOutcome.Pass],
+        ['testD', ApexTestResultOutcome.Skip]
+      ])
+    ]);
+
+    expect(merged.tests.map((test) => test.methodName)).to.eql([
+      'testA',
+      'testB',
+      'testC',
+      'testD'
+    ]);
+    expect(merged.summary).to.include({
+      testRunId: '707xx0000000001',
+      outcome: 'Failed',
+      testsRan: 4,
+      passing: 2,
+      failing: 1,
+      skipped: 1,
+      passRate: '50%',
+      failRate: '25%',
+      skipRate: '25%',
+      testStartTime: '2026-01-01T10:00:00.000Z',
+      testSetupTimeInMs: 0,
+      testExecutionTimeInMs: 32,
+      testTotalTimeInMs: 32,
+      commandTimeInMs: 3000
+    });
+    expect(merged.summary.orgWideCoverage).to.be.undefined;
+  });
+
+  it('should ignore invalid start times', () => {
+    const merged = mergeTestResults([
+      runResult('707xx0000000001', '', [['testA', ApexTestResultOutcome.Pass]]),
+      runResult('707xx0000000002', '2026-01-01T10:00:00.000Z', [
+        ['testB', ApexTestResultOutcome.Pass]
+      ])
+    ]);
+    expect(merged.summary.testStartTime).to.equal('2026-01-01T10:00:00.000Z');
+
+    const withoutStartTimes = mergeTestResults([
+      runResult('707xx0000000001', 'not a date', [
+        ['testA', ApexTestResultOutcome.Pass]
+      ]),
+      runResult('707xx0000000002', '', [['testB', ApexTestResultOutcome.Pass]])
+    ]);
+    expect(withoutStartTimes.summary.testStartTime).to.equal('not a date');
+  });
+
+  it('should take the union of covered lines per class', () => {
+    const merged = mergeTestResults([
+      runResult(
+        '707xx0000000001',
+        '2026-01-01T10:00:00.000Z',
+        [['testA', ApexTestResultOutcome.Pass]],
+        [coverage('01pxx0000000001', [1, 2], [3, 4])]
+      ),
+      runResult(
+        '707xx0000000002',
+        '2026-01-01T10:00:00.000Z',
+        [['testB', ApexTestResultOutcome.Pass]],
+        [coverage('01pxx0000000002', [3], [1, 2, 4])]
+      )
+    ]);
+
+    expect(merged.codecoverage).to.eql([
+      {
+        ...coverage('01pxx0000000001', [1, 2, 3], [4]),
+        percentage: '75%'
+      }
+    ]);
+    expect(merged.summary).to.include({
+      outcome: 'Passed',
+      coveredLines: 3,
+      totalLines: 4,
+      testRunCoverage: '75%'
+    });
+  });
+
+  it('should require a test result', () => {
+    expect(() => mergeTestResults([])).to.throw(
+      nls.localize('mergeTestResultsEmptyErr')
+    );
+  });
+
+  it('should keep the outcome of the run that started last', () => {
+    const rerun = runResult('707xx0000000002', '2026-01-01T11:00:00.000Z', [
+      ['testB', ApexTestResultOutcome.Pass]
+    ]);
+    rerun.tests[0].runTime = 20;
+
+    const merged = mergeTestResults([
+      rerun,
+      runResult('707xx0000000001', '2026-01-01T10:00:00.000Z', [
+        ['testA', ApexTestResultOutcome.Pass],
+        ['testB', ApexTestResultOutcome.Fail]
+      ])
+    ]);
+
+    expect(merged.tests.map((test) => [test.methodName, test.outcome])).to.eql([
+      ['testB', ApexTestResultOutcome.Pass],
+      ['testA', ApexTestResultOutcome.Pass]
+    ]);
+    expect(merged.summary).to.include({
+      testRunId: '707xx0000000002',
+      outcome: 'Passed',
+      testsRan: 2,
+      failing: 0,
+      testExecutionTimeInMs: 28
+    });
+  });
+
+  it('should merge setup methods', () => {
+    const setupMethod = (
+      methodName: string,
+      testSetupTime: number
+    ): ApexTestSetupData => ({
+      id: '07Mxx00000F2Xx6UAF',
+      stackTrace: null,
+      message: null,
+      asyncApexJobId: '7092M000000Vt94QAC',
+      methodName,
+      apexLogId: null,
+      apexClass: structuredClone(testResultData.tests[0].apexClass),
+      testSetupTime,
+      testTimestamp: '2026-01-01T10:00:00.000Z',
+      fullName: `t3st.TestLogger.${methodName}`
+    });
+    const first = runResult('707xx0000000001', '2026-01-01T10:00:00.000Z', []);
+    first.setup = [setupMethod('setupA', 30), setupMethod('setupB', 10)];
+    const second = runResult('707xx0000000002', '2026-01-01T11:00:00.000Z', []);
+    second.setup = [setupMethod('setupA', 40)];
+
+    const merged = mergeTestResults([first, second]);
+
+    expect(merged.setup.map((method) => method.testSetupTime)).to.eql([40, 10]);
+    expect(merged.summary.testSetupTimeInMs).to.equal(50);
+    expect(merged.summary.testTotalTimeInMs).to.equal(50);
+  });
+
+  it('should be reported like a single run', (done) => {
+    const merged = mergeTestResults([
+      runResult('707xx0000000001', '2026-01-01T10:00:00.000Z', [
+        ['testA', ApexTestResultOutcome.Pass]
+      ]),
+      runResult('707xx0000000002', '2026-01-01T10:00:00.000Z', [
+        ['testB', ApexTestResultOutcome.Fail]
+      ])
+    ]);
+    let report = '';
+    pipeline(
+      new MarkdownTextFormatTransformer(merged, { format: 'text' }),
+      new Writable({
+        write(chunk, encoding, callback) {
+          report += chunk;
+          callback();
+        }
+      }),
+      (err) => {
+        expect(err).to.be.undefined;
+        expect(report).to.contain('Passed:  1');
+        expect(report).to.contain('Failed:  1');
+        expect(report).to.contain('Total:   2');
+        done();
+      }
+    );
+  });
+});
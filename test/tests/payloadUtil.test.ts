@@ -60,6 +60,133 @@ describe('Build async payload', async () => {
     expect(namespaceStub.calledOnce).to.be.true;
   });
 
+  it('should build async payload for test patterns', async () => {
+    const namespaceStub = sandboxStub
+      .stub(utils, 'queryNamespaces')
+      .resolves([{ installedNs: true, namespace: 'ns' }]);
+    const queryAllStub = sandboxStub.stub(utils, 'queryAll');
+    queryAllStub.onFirstCall().resolves({
+      done: true,
+      totalSize: 4,
+      records: [
+        { Id: '01pxx0000000001', Name: 'AccountTest', NamespacePrefix: null },
+        { Id: '01pxx0000000002', Name: 'AccountHelper', NamespacePrefix: null },
+        { Id: '01pxx0000000003', Name: 'ContactTest', NamespacePrefix: 'ns' },
+        { Id: '01pxx0000000004', Name: 'LeadTest', NamespacePrefix: null }
+      ]
+    });
+    queryAllStub.onSecondCall().resolves({
+      done: true,
+      totalSize: 3,
+      records: [
+        {
+          Id: '01pxx0000000001',
+          Body: '@isTest class AccountTest { @isTest static void testInsert() {} @isTest static void testBulk() {} }'
+        },
+        {
+          Id: '01pxx0000000002',
+          Body: 'public class AccountHelper { public void run() {} }'
+        },
+        {
+          Id: '01pxx0000000003',
+          Body: '@isTest class ContactTest { @isTest static void testBulk() {} }'
+        }
+      ]
+    });
+    const payload = await testService.buildAsyncPayload(
+      TestLevel.RunSpecifiedTests,
+      'Account*,Contact*.testBulk,ns.ManagedTest,AccountTest.testInsert'
+    );
+
+    expect(payload).to.deep.equal({
+      tests: [
+        { className: 'AccountTest' },
+        { className: 'ns.ContactTest', testMethods: ['testBulk'] },
+        { className: 'ns.ManagedTest' }
+      ],
+      testLevel: TestLevel.RunSpecifiedTests,
+      skipCodeCoverage: false
+    });
+    expect(queryAllStub.firstCall.args[1]).to.equal(
+      'SELECT Id, Name, NamespacePrefix FROM ApexClass'
+    );
+    // only the bodies of classes whose name matches are downloaded
+    expect(queryAllStub.secondCall.args[1]).to.equal(
+      "SELECT Id, Body FROM ApexClass WHERE Id IN ('01pxx0000000001','01pxx0000000002','01pxx0000000003')"
+    );
+    expect(namespaceStub.calledOnce).to.be.true;
+  });
+
+  it('should not split regex patterns on commas', async () => {
+    const queryAllStub = sandboxStub.stub(utils, 'queryAll');
+    queryAllStub.onFirstCall().resolves({
+      done: true,
+      totalSize: 1,
+      records: [
+        { Id: '01pxx0000000001', Name: 'AccountTestt', NamespacePrefix: null }
+      ]
+    });
+    queryAllStub.onSecondCall().resolves({
+      done: true,
+      totalSize: 1,
+      records: [
+        {
+          Id: '01pxx0000000001',
+          Body: '@isTest class AccountTestt { @isTest static void testInsert() {} }'
+        }
+      ]
+    });
+    const payload = await testService.buildAsyncPayload(
+      TestLevel.RunSpecifiedTests,
+      undefined,
+      '/Test{1,3}$/'
+    );
+
+    expect(payload).to.deep.equal({
+      tests: [{ className: 'AccountTestt' }],
+      testLevel: TestLevel.RunSpecifiedTests,
+      skipCodeCoverage: false
+    });
+  });
+
+  it('should report invalid regex patterns', async () => {
+    sandboxStub.stub(utils, 'queryAll').resolves({
+      done: true,
+      totalSize: 1,
+      records: [
+        { Id: '01pxx0000000001', Name: 'AccountTest', NamespacePrefix: null }
+      ]
+    });
+    try {
+      await testService.buildAsyncPayload(
+        TestLevel.RunSpecifiedTests,
+        undefined,
+        '/a/z'
+      );
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect(e.message).to.include('Invalid test pattern /a/z');
+    }
+  });
+
+  it('should report test patterns that match no tests', async () => {
+    sandboxStub
+      .stub(utils, 'queryAll')
+      .resolves({ done: true, totalSize: 0, records: [] });
+    try {
+      await testService.buildAsyncPayload(
+        TestLevel.RunSpecifiedTests,
+        undefined,
+        '/^Lead/'
+      );
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect(e.message).to.include(
+        nls.localize('testPatternsNoMatchErr', '/^Lead/')
+      );
+    }
+  });
+
   it('should build async payload for test with namespace when org returns 0 namespaces', async () => {
     const namespaceStub = sandboxStub
       .stub(utils, 'queryNamespaces')
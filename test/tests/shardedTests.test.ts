@@ -0,0 +1,170 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { Connection } from '@salesforce/core';
+import { expect } from 'chai';
+import { createSandbox, SinonSandbox } from 'sinon';
+import { nls } from '../../src/i18n';
+import { partitionTestItems, ShardedTests } from '../../src/tests/shardedTests';
+import { TestService } from '../../src/tests/testService';
+import {
+  AsyncTestArrayConfiguration,
+  TestItem,
+  TestResult
+} from '../../src/tests/types';
+import { testResultData } from '../testData';
+
+const items = (...classNames: string[]): TestItem[] =>
+  classNames.map((className) => ({ className }));
+
+describe('Sharded test runs', () => {
+  let sandbox: SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe('partitionTestItems', () => {
+    it('should balance by number of classes without run times', () => {
+      const shards = partitionTestItems(items('A', 'B', 'C', 'D', 'E'), 2);
+
+      expect(shards).to.eql([items('A', 'C', 'E'), items('B', 'D')]);
+    });
+
+    it('should balance by run time when known', () => {
+      const shards = partitionTestItems(items('A', 'B', 'C', 'D'), 2, {
+        A: 100,
+        B: 60,
+        C: 50
+      });
+
+      // D counts as the average known run time, 70
+      expect(shards).to.eql([items('A', 'C'), items('D', 'B')]);
+    });
+
+    it('should not return empty shards', () => {
+      expect(partitionTestItems(items('A'), 3)).to.eql([items('A')]);
+    });
+  });
+
+  describe('runTests', () => {
+    const connection = (username: string): Connection =>
+      ({ getUsername: () => username }) as unknown as Connection;
+
+    it('should run each shard and merge the results', async () => {
+      const runStub = sandbox
+        .stub(TestService.prototype, 'runTestAsynchronous')
+        .callsFake(async (options: AsyncTestArrayConfiguration) => {
+          const result: TestResult = structuredClone(testResultData);
+          result.summary.testRunId = `707-${options.tests[0].className}`;
+          result.tests[0].fullName = `${options.tests[0].className}.test`;
+          return result;
+        });
+
+      const sharded = await new ShardedTests([
+        connection('one@example.com'),
+        connection('two@example.com')
+      ]).runTests(items('A', 'B'));
+
+      expect(runStub.callCount).to.equal(2);
+      expect(runStub.firstCall.args[0]).to.eql({
+        tests: items('A'),
+        testLevel: 'RunSpecifiedTests',
+        skipCodeCoverage: true
+      });
+      expect(sharded.shards).to.eql([
+        {
+          username: 'one@example.com',
+          tests: items('A'),
+          testRunId: '707-A',
+          completed: true
+        },
+        {
+          username: 'two@example.com',
+          tests: items('B'),
+          testRunId: '707-B',
+          completed: true
+        }
+      ]);
+      expect(sharded.result.summary.testsRan).to.equal(2);
+      expect(sharded.result.tests.map((test) => test.fullName)).to.eql([
+        'A.test',
+        'B.test'
+      ]);
+    });
+
+    it('should merge only the shards that completed', async () => {
+      sandbox
+        .stub(TestService.prototype, 'runTestAsynchronous')
+        .onFirstCall()
+        .resolves(structuredClone(testResultData))
+        .onSecondCall()
+        .resolves({ testRunId: '707-timeout' });
+
+      const sharded = await new ShardedTests([
+        connection('one@example.com'),
+        connection('two@example.com')
+      ]).runTests(items('A', 'B'));
+
+      expect(sharded.shards[1]).to.include({
+        testRunId: '707-timeout',
+        completed: false
+      });
+      expect(sharded.result.summary.testsRan).to.equal(1);
+    });
+
+    it('should report cancelled and failed shards', async () => {
+      sandbox
+        .stub(TestService.prototype, 'runTestAsynchronous')
+        .onFirstCall()
+        .resolves(null)
+        .onSecondCall()
+        .rejects(new Error('Session expired'))
+        .onThirdCall()
+        .resolves(structuredClone(testResultData));
+
+      const sharded = await new ShardedTests([
+        connection('one@example.com'),
+        connection('two@example.com'),
+        connection('three@example.com')
+      ]).runTests(items('A', 'B', 'C'));
+
+      expect(sharded.shards).to.eql([
+        {
+          username: 'one@example.com',
+          tests: items('A'),
+          completed: false
+        },
+        {
+          username: 'two@example.com',
+          tests: items('B'),
+          completed: false,
+          error: 'Session expired'
+        },
+        {
+          username: 'three@example.com',
+          tests: items('C'),
+          testRunId: testResultData.summary.testRunId,
+          completed: true
+        }
+      ]);
+      expect(sharded.result.summary.testsRan).to.equal(1);
+    });
+
+    it('should require a connection', async () => {
+      try {
+        await new ShardedTests([]).runTests(items('A'));
+        expect.fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(nls.localize('noShardConnectionsErr'));
+      }
+    });
+  });
+});
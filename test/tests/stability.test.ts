@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { buildStabilityReport } from '../../src/tests/stability';
+import { ApexTestResultOutcome, TestResult } from '../../src/tests/types';
+import { testResultData } from '../testData';
+
+const runResult = (
+  testRunId: string,
+  tests: [string, ApexTestResultOutcome, number][]
+): TestResult => ({
+  ...structuredClone(testResultData),
+  summary: { ...structuredClone(testResultData.summary), testRunId },
+  tests: tests.map(([methodName, outcome, runTime]) => ({
+    ...structuredClone(testResultData.tests[0]),
+    methodName,
+    fullName: `t3st.TestLogger.${methodName}`,
+    outcome,
+    runTime
+  }))
+});
+
+describe('Stability report', () => {
+  it('should aggregate outcomes and run times per test method', () => {
+    const report = buildStabilityReport(
+      [
+        runResult('707xx0000000001', [
+          ['testA', ApexTestResultOutcome.Pass, 10],
+          ['testB', ApexTestResultOutcome.Pass, 100]
+        ]),
+        runResult('707xx0000000002', [
+          ['testA', ApexTestResultOutcome.Pass, 20],
+          ['testB', ApexTestResultOutcome.Fail, 300]
+        ]),
+        runResult('707xx0000000003', [
+          ['testA', ApexTestResultOutcome.Pass, 30],
+          ['testB', ApexTestResultOutcome.Pass, 200]
+        ])
+      ],
+      4
+    );
+
+    expect(report.iterations).to.equal(4);
+    expect(report.completedIterations).to.equal(3);
+    expect(report.testRunIds).to.deep.equal([
+      '707xx0000000001',
+      '707xx0000000002',
+      '707xx0000000003'
+    ]);
+    expect(report.tests.map((test) => test.methodName)).to.deep.equal([
+      'testB',
+      'testA'
+    ]);
+    expect(report.tests[0]).to.deep.include({
+      fullName: 't3st.TestLogger.testB',
+      className: 't3st.TestLogger',
+      runs: 3,
+      passed: 2,
+      failed: 1,
+      skipped: 0,
+      meanRunTime: 200,
+      nondeterministic: true
+    });
+    expect(report.tests[0].runTimeStdDev).to.be.closeTo(81.65, 0.01);
+    expect(report.tests[1]).to.deep.include({
+      passed: 3,
+      failed: 0,
+      meanRunTime: 20,
+      nondeterministic: false
+    });
+  });
+
+  it('should report no tests without results', () => {
+    expect(buildStabilityReport([], 2)).to.deep.equal({
+      iterations: 2,
+      completedIterations: 0,
+      testRunIds: [],
+      tests: []
+    });
+  });
+});
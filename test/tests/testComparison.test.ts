@@ -0,0 +1,192 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { nls } from '../../src/i18n';
+import {
+  compareTestResults,
+  compareTestRuns
+} from '../../src/tests/testComparison';
+import {
+  ApexTestResultData,
+  ApexTestResultOutcome,
+  CodeCoverageResult,
+  TestResult
+} from '../../src/tests/types';
+import { testResultData } from '../testData';
+
+function createTest(
+  methodName: string,
+  outcome: ApexTestResultOutcome,
+  runTime: number
+): ApexTestResultData {
+  return {
+    ...structuredClone(testResultData.tests[0]),
+    methodName,
+    fullName: `t3st.TestLogger.${methodName}`,
+    outcome,
+    runTime
+  };
+}
+
+function createResult(
+  testRunId: string,
+  tests: ApexTestResultData[],
+  coverage: { [name: string]: string }
+): TestResult {
+  const result = structuredClone(testResultData);
+  result.summary.testRunId = testRunId;
+  result.tests = tests;
+  result.codecoverage = Object.entries(coverage).map(
+    ([name, percentage]): CodeCoverageResult => ({
+      apexId: '01p000000000001',
+      name,
+      type: 'ApexClass',
+      numLinesCovered: 0,
+      numLinesUncovered: 0,
+      percentage,
+      coveredLines: [],
+      uncoveredLines: []
+    })
+  );
+  return result;
+}
+
+describe('Test Run Comparison', () => {
+  const baseline = createResult(
+    '707000000000001',
+    [
+      createTest('breaks', ApexTestResultOutcome.Pass, 10),
+      createTest('fixed', ApexTestResultOutcome.Fail, 10),
+      createTest('broken', ApexTestResultOutcome.CompileFail, 10),
+      createTest('slows', ApexTestResultOutcome.Pass, 100),
+      createTest('steady', ApexTestResultOutcome.Pass, 1000),
+      createTest('deleted', ApexTestResultOutcome.Pass, 10)
+    ],
+    { Logger: '80%', Removed: '50%', Same: '90%' }
+  );
+  const current = createResult(
+    '707000000000002',
+    [
+      createTest('breaks', ApexTestResultOutcome.Fail, 10),
+      createTest('fixed', ApexTestResultOutcome.Pass, 10),
+      createTest('broken', ApexTestResultOutcome.Fail, 10),
+      createTest('slows', ApexTestResultOutcome.Pass, 400),
+      createTest('steady', ApexTestResultOutcome.Pass, 1200),
+      createTest('created', ApexTestResultOutcome.Skip, 0)
+    ],
+    { Logger: '72.5%', Added: '100%', Same: '90%' }
+  );
+
+  it('should classify the changes between two runs', () => {
+    const comparison = compareTestResults(baseline, current);
+
+    expect(comparison.baselineTestRunId).to.equal('707000000000001');
+    expect(comparison.currentTestRunId).to.equal('707000000000002');
+    expect(comparison.newlyFailing).to.eql([
+      {
+        fullName: 't3st.TestLogger.breaks',
+        baselineOutcome: ApexTestResultOutcome.Pass,
+        baselineRunTime: 10,
+        currentOutcome: ApexTestResultOutcome.Fail,
+        currentRunTime: 10
+      }
+    ]);
+    expect(comparison.newlyPassing.map((e) => e.fullName)).to.eql([
+      't3st.TestLogger.fixed'
+    ]);
+    expect(comparison.stillFailing.map((e) => e.fullName)).to.eql([
+      't3st.TestLogger.broken'
+    ]);
+    expect(comparison.added).to.eql([
+      {
+        fullName: 't3st.TestLogger.created',
+        currentOutcome: ApexTestResultOutcome.Skip,
+        currentRunTime: 0
+      }
+    ]);
+    expect(comparison.removed.map((e) => e.fullName)).to.eql([
+      't3st.TestLogger.deleted'
+    ]);
+    expect(comparison.slower.map((e) => e.fullName)).to.eql([
+      't3st.TestLogger.slows'
+    ]);
+  });
+
+  it('should report coverage deltas, largest drop first', () => {
+    expect(compareTestResults(baseline, current).coverageDeltas).to.eql([
+      {
+        name: 'Removed',
+        baselinePercentage: 50,
+        currentPercentage: undefined,
+        delta: -50
+      },
+      {
+        name: 'Logger',
+        baselinePercentage: 80,
+        currentPercentage: 72.5,
+        delta: -7.5
+      },
+      {
+        name: 'Added',
+        baselinePercentage: undefined,
+        currentPercentage: 100,
+        delta: 100
+      }
+    ]);
+  });
+
+  it('should apply the slower thresholds', () => {
+    const comparison = compareTestResults(baseline, current, {
+      slowerThresholdPercent: 10,
+      slowerThresholdMs: 150
+    });
+
+    expect(comparison.slower.map((e) => e.fullName)).to.eql([
+      't3st.TestLogger.slows',
+      't3st.TestLogger.steady'
+    ]);
+  });
+
+  describe('from files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'test-comparison-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should compare test result json files', async () => {
+      const baselinePath = join(dir, 'test-result-707000000000001.json');
+      await writeFile(baselinePath, JSON.stringify(baseline));
+
+      const comparison = await compareTestRuns(baselinePath, current);
+
+      expect(comparison.baselineTestRunId).to.equal('707000000000001');
+      expect(comparison.newlyFailing).to.have.lengthOf(1);
+    });
+
+    it('should reject a file that is not a test result', async () => {
+      const filePath = join(dir, 'test-run-id.txt');
+      await writeFile(filePath, '707000000000001');
+
+      try {
+        await compareTestRuns(filePath, current);
+        expect.fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(
+          nls.localize('invalidTestResultFileErr', filePath)
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { nls } from '../../src/i18n';
+import {
+  discoverTestClasses,
+  discoverTestItems,
+  parseApexTestClass
+} from '../../src/tests/testDiscovery';
+
+const ACCOUNT_TEST = `/**
+ * class AccountHelper is not a test, and neither is @isTest void inComment()
+ */
+@IsTest(SeeAllData=true isParallel=false)
+private with sharing class AccountTest {
+  @TestSetup
+  static void setup() {
+    insert new Account(Name = '@isTest static void inString() {');
+  }
+
+  @isTest
+  static void testInsert() {
+    System.assert(true);
+  }
+
+  @isTest(SeeAllData=true)
+  private static void testQuery() {
+    if (true) {
+      helper();
+    }
+  }
+
+  static testMethod void testLegacy() {}
+
+  private static void helper() {}
+}
+`;
+
+describe('Test discovery', () => {
+  describe('parseApexTestClass', () => {
+    it('should find test methods and their attributes', () => {
+      expect(parseApexTestClass(ACCOUNT_TEST)).to.eql({
+        className: 'AccountTest',
+        seeAllData: true,
+        testMethods: [
+          { name: 'testInsert' },
+          { name: 'testQuery', seeAllData: true },
+          { name: 'testLegacy' }
+        ]
+      });
+    });
+
+    it('should read the isParallel attribute', () => {
+      expect(
+        parseApexTestClass(
+          '@isTest(isParallel=true)\npublic class FastTest {\n  @isTest static void testIt() {}\n}'
+        )
+      ).to.eql({
+        className: 'FastTest',
+        isParallel: true,
+        testMethods: [{ name: 'testIt' }]
+      });
+    });
+
+    it('should ignore classes that are not annotated with @isTest', () => {
+      expect(
+        parseApexTestClass(
+          'public class AccountService {\n  static testMethod void notRunnable() {}\n}'
+        )
+      ).to.be.undefined;
+    });
+  });
+
+  describe('discoverTestClasses', () => {
+    let projectDir: string;
+
+    const writeClass = async (
+      dir: string,
+      name: string,
+      source: string
+    ): Promise<void> => {
+      await mkdir(join(projectDir, dir), { recursive: true });
+      await writeFile(join(projectDir, dir, `${name}.cls`), source);
+    };
+
+    beforeEach(async () => {
+      projectDir = await mkdtemp(join(tmpdir(), 'test-discovery-'));
+      await writeClass(
+        'force-app/main/default/classes',
+        'AccountTest',
+        ACCOUNT_TEST
+      );
+      await writeClass(
+        'force-app/main/default/classes',
+        'TestDataFactory',
+        '@isTest\npublic class TestDataFactory {\n  public static Account createAccount() { return null; }\n}'
+      );
+      await writeClass(
+        'other/classes',
+        'ContactTest',
+        '@isTest\nclass ContactTest {\n  @isTest static void testIt() {}\n}'
+      );
+      await writeClass(
+        'unlisted/classes',
+        'IgnoredTest',
+        '@isTest\nclass IgnoredTest {\n  @isTest static void testIt() {}\n}'
+      );
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should scan the package directories and apply the namespace', async () => {
+      await writeFile(
+        join(projectDir, 'sfdx-project.json'),
+        JSON.stringify({
+          namespace: 'ns',
+          packageDirectories: [{ path: 'other' }, { path: 'force-app' }]
+        })
+      );
+
+      const classes = await discoverTestClasses(projectDir);
+
+      expect(classes.map((c) => [c.className, c.filePath])).to.eql([
+        [
+          'ns.AccountTest',
+          join(projectDir, 'force-app/main/default/classes/AccountTest.cls')
+        ],
+        ['ns.ContactTest', join(projectDir, 'other/classes/ContactTest.cls')]
+      ]);
+      expect(await discoverTestItems(projectDir)).to.eql([
+        {
+          className: 'ns.AccountTest',
+          testMethods: ['testInsert', 'testQuery', 'testLegacy']
+        },
+        { className: 'ns.ContactTest', testMethods: ['testIt'] }
+      ]);
+    });
+
+    it('should throw an error without sfdx-project.json', async () => {
+      try {
+        await discoverTestItems(projectDir);
+        expect.fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(
+          nls.localize('missingSfdxProjectErr', projectDir)
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestHistoryStore } from '../../src/tests/testHistory';
+import { ApexTestResultOutcome, TestResult } from '../../src/tests/types';
+import { testResultData } from '../testData';
+
+const FULL_NAME = 't3st.TestLogger.testLoggerLog';
+const ORG_ID = '00D000000000001';
+
+function createRun(
+  testRunId: string,
+  testStartTime: string,
+  outcome: ApexTestResultOutcome,
+  runTime: number,
+  percentage: string
+): TestResult {
+  const result = structuredClone(testResultData);
+  result.summary.orgId = ORG_ID;
+  result.summary.testRunId = testRunId;
+  result.summary.testStartTime = testStartTime;
+  result.summary.testTotalTimeInMs = runTime * 2;
+  result.tests[0].outcome = outcome;
+  result.tests[0].runTime = runTime;
+  result.codecoverage = [
+    {
+      apexId: '01p000000000001',
+      name: 'TestLogger',
+      type: 'ApexClass',
+      numLinesCovered: 0,
+      numLinesUncovered: 0,
+      percentage,
+      coveredLines: [],
+      uncoveredLines: []
+    }
+  ];
+  return result;
+}
+
+describe('Test History Store', () => {
+  let dir: string;
+  let store: TestHistoryStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'test-history-'));
+    store = new TestHistoryStore(dir);
+    // saved out of order on purpose
+    await store.save(
+      createRun(
+        '707000000000002',
+        '2026-02-01T00:00:00.000Z',
+        ApexTestResultOutcome.Fail,
+        200,
+        '50%'
+      )
+    );
+    await store.save(
+      createRun(
+        '707000000000001',
+        '2026-01-01T00:00:00.000Z',
+        ApexTestResultOutcome.Pass,
+        100,
+        '40%'
+      )
+    );
+    await store.save(
+      createRun(
+        '707000000000003',
+        '2026-03-01T00:00:00.000Z',
+        ApexTestResultOutcome.Pass,
+        300,
+        '75%'
+      )
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should list runs of an org most recent first', async () => {
+    const runs = await store.listRuns(ORG_ID);
+
+    expect(runs.map((run) => run.testRunId)).to.eql([
+      '707000000000003',
+      '707000000000002',
+      '707000000000001'
+    ]);
+    expect(runs[0].tests).to.eql([
+      { fullName: FULL_NAME, outcome: ApexTestResultOutcome.Pass, runTime: 300 }
+    ]);
+    expect(runs[0].coverage).to.eql([{ name: 'TestLogger', percentage: 75 }]);
+    expect(await store.listRuns(ORG_ID, 1)).to.have.lengthOf(1);
+    expect(await store.listRuns('00D000000000000')).to.eql([]);
+  });
+
+  it('should replace a run saved twice', async () => {
+    await store.save(
+      createRun(
+        '707000000000003',
+        '2026-03-01T00:00:00.000Z',
+        ApexTestResultOutcome.Fail,
+        300,
+        '75%'
+      )
+    );
+
+    const runs = await store.listRuns(ORG_ID);
+    expect(runs).to.have.lengthOf(3);
+    expect(runs[0].tests[0].outcome).to.equal(ApexTestResultOutcome.Fail);
+  });
+
+  it('should compute the pass rate over the last runs', async () => {
+    expect(await store.getPassRate(ORG_ID, FULL_NAME)).to.eql({
+      fullName: FULL_NAME,
+      runs: 3,
+      passed: 2,
+      failed: 1,
+      passRate: 2 / 3
+    });
+    expect((await store.getPassRate(ORG_ID, FULL_NAME, 2)).passRate).to.equal(
+      0.5
+    );
+    expect((await store.getPassRate(ORG_ID, 'ns.Missing.test')).runs).to.equal(
+      0
+    );
+  });
+
+  it('should return runtime trends oldest first', async () => {
+    const testTrend = await store.getRuntimeTrend(ORG_ID, FULL_NAME, 2);
+    expect(testTrend).to.eql([
+      {
+        testRunId: '707000000000002',
+        testStartTime: '2026-02-01T00:00:00.000Z',
+        value: 200
+      },
+      {
+        testRunId: '707000000000003',
+        testStartTime: '2026-03-01T00:00:00.000Z',
+        value: 300
+      }
+    ]);
+
+    const suiteTrend = await store.getRuntimeTrend(ORG_ID);
+    expect(suiteTrend.map((point) => point.value)).to.eql([200, 400, 600]);
+  });
+
+  it('should return the coverage trend of a class', async () => {
+    const trend = await store.getCoverageTrend(ORG_ID, 'TestLogger');
+    expect(trend.map((point) => point.value)).to.eql([40, 50, 75]);
+    expect(await store.getCoverageTrend(ORG_ID, 'Other')).to.eql([]);
+  });
+
+  it('should average the run time of each test class', async () => {
+    expect(await store.getClassRuntimes(ORG_ID)).to.eql({
+      't3st.TestLogger': 200
+    });
+    expect(await store.getClassRuntimes(ORG_ID, 1)).to.eql({
+      't3st.TestLogger': 300
+    });
+  });
+});
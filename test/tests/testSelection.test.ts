@@ -0,0 +1,139 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { nls } from '../../src/i18n';
+import {
+  isTestPattern,
+  isTestPatternCandidate,
+  mergeTestItems,
+  selectTests,
+  splitTestPatterns
+} from '../../src/tests/testSelection';
+
+const testClasses = [
+  {
+    className: 'AccountServiceTest',
+    testMethods: [{ name: 'testBulkInsert' }, { name: 'testUpdate' }]
+  },
+  {
+    className: 'AccountTriggerTest',
+    testMethods: [{ name: 'testInsert' }, { name: 'testBulkDelete' }]
+  },
+  {
+    className: 'ns.ContactServiceTest',
+    testMethods: [{ name: 'testBulkMerge' }, { name: 'testQuery' }]
+  }
+];
+
+describe('Test Selection', () => {
+  it('should recognize wildcard and regex patterns', () => {
+    expect(isTestPattern('Account*Test')).to.be.true;
+    expect(isTestPattern('AccountTest.test?')).to.be.true;
+    expect(isTestPattern('/^Account/i')).to.be.true;
+    expect(isTestPattern('AccountTest.testInsert')).to.be.false;
+    expect(isTestPattern('ns.AccountTest')).to.be.false;
+  });
+
+  it('should select whole classes matching a class pattern', () => {
+    expect(selectTests(['account*test'], testClasses)).to.eql([
+      { className: 'AccountServiceTest' },
+      { className: 'AccountTriggerTest' }
+    ]);
+  });
+
+  it('should match class names with or without namespace', () => {
+    expect(selectTests(['Contact*'], testClasses)).to.eql([
+      { className: 'ns.ContactServiceTest' }
+    ]);
+    expect(selectTests(['ns.*Service?est'], testClasses)).to.eql([
+      { className: 'ns.ContactServiceTest' }
+    ]);
+  });
+
+  it('should select methods matching a Class.method pattern', () => {
+    expect(selectTests(['*ServiceTest.testBulk*'], testClasses)).to.eql([
+      { className: 'AccountServiceTest', testMethods: ['testBulkInsert'] },
+      { className: 'ns.ContactServiceTest', testMethods: ['testBulkMerge'] }
+    ]);
+  });
+
+  it('should select classes and methods matching a regex', () => {
+    expect(
+      selectTests(['/^AccountTrigger/', '/Service.*\\.testQ/g'], testClasses)
+    ).to.eql([
+      { className: 'AccountTriggerTest' },
+      { className: 'ns.ContactServiceTest', testMethods: ['testQuery'] }
+    ]);
+  });
+
+  it('should merge the methods selected by several patterns', () => {
+    expect(
+      selectTests(
+        ['AccountServiceTest.testUpdate', '*.testBulk*', 'AccountTrigger*'],
+        testClasses
+      )
+    ).to.eql([
+      {
+        className: 'AccountServiceTest',
+        testMethods: ['testBulkInsert', 'testUpdate']
+      },
+      { className: 'AccountTriggerTest' },
+      { className: 'ns.ContactServiceTest', testMethods: ['testBulkMerge'] }
+    ]);
+  });
+
+  it('should throw for patterns that match no tests', () => {
+    try {
+      selectTests(['Account*', 'Lead*', '/^Opportunity/'], testClasses);
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect(e.message).to.equal(
+        nls.localize('testPatternsNoMatchErr', 'Lead*, /^Opportunity/')
+      );
+    }
+  });
+
+  it('should throw for invalid regex patterns', () => {
+    for (const pattern of ['/a/z', '/(unclosed/']) {
+      try {
+        selectTests([pattern], testClasses);
+        expect.fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.contain(`Invalid test pattern ${pattern}: `);
+      }
+    }
+  });
+
+  it('should split patterns outside regexes', () => {
+    expect(
+      splitTestPatterns('Account*,/Test{1,3}/i,/a\\/b,c/,Contact.test?')
+    ).to.eql(['Account*', '/Test{1,3}/i', '/a\\/b,c/', 'Contact.test?']);
+  });
+
+  it('should tell which classes may match from their name', () => {
+    expect(isTestPatternCandidate('Account*', 'ns.AccountTest')).to.be.true;
+    expect(isTestPatternCandidate('*Test.testBulk*', 'AccountTest')).to.be.true;
+    expect(isTestPatternCandidate('Contact*', 'AccountTest')).to.be.false;
+    expect(isTestPatternCandidate('/\\.testBulk/', 'AccountTest')).to.be.true;
+  });
+
+  it('should merge test items of the same class', () => {
+    expect(
+      mergeTestItems([
+        { className: 'A', testMethods: ['one'] },
+        { classId: '01pxx0000000001' },
+        { className: 'B', testMethods: ['one'] },
+        { className: 'A', testMethods: ['two', 'one'] },
+        { className: 'B' }
+      ])
+    ).to.eql([
+      { className: 'A', testMethods: ['one', 'two'] },
+      { className: 'B' },
+      { classId: '01pxx0000000001' }
+    ]);
+  });
+});
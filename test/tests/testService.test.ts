@@ -8,9 +8,22 @@ import { AuthInfo, Connection } from '@salesforce/core';
 import { MockTestOrgData, TestContext } from '@salesforce/core/testSetup';
 import { fail } from 'assert';
 import { expect } from 'chai';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { createSandbox, SinonSandbox, SinonStub, spy } from 'sinon';
 import { TestService } from '../../src';
-import { TestCategory, TestLevel } from '../../src/tests/types';
+import {
+  ApexTestResultOutcome,
+  TestCategory,
+  TestLevel
+} from '../../src/tests/types';
+import { nls } from '../../src/i18n';
+import {
+  readTestSuiteFile,
+  writeTestSuiteFile
+} from '../../src/tests/testSuiteMetadata';
+import { testResultData } from '../testData';
 
 let mockConnection: Connection;
 let sandboxStub: SinonSandbox;
@@ -256,6 +269,7 @@ describe('Apex Test Suites', async () => {
       expect(consoleSpy.args[1]).to.eql([
         'Apex test class testClassTwo already exists in Apex test suite oldSuite'
       ]);
+      consoleSpy.restore();
     });
 
     it('should add test class to suite if class does not exist', async () => {
@@ -282,6 +296,229 @@ describe('Apex Test Suites', async () => {
     });
   });
 
+  describe('Manage Test Suites', async () => {
+    let toolingDestroyStub: SinonStub;
+    let toolingUpdateStub: SinonStub;
+    let dir: string;
+
+    const classIds: { [name: string]: string } = {
+      testClassOne: 'xxxxxxx004',
+      testClassTwo: 'xxxxxxx006',
+      testClassThree: 'xxxxxxx008'
+    };
+
+    const stubQueries = (
+      suites: { [name: string]: string },
+      members: { Id: string; ApexClassId: string; Name: string }[]
+    ): void => {
+      toolingQueryStub.callsFake(async (query: string) => {
+        if (query.includes('FROM ApexTestSuite')) {
+          const name = /TestSuiteName = '(.*)'/.exec(query)[1];
+          return { records: suites[name] ? [{ Id: suites[name] }] : [] };
+        }
+        if (query.includes('FROM TestSuiteMembership')) {
+          return {
+            records: members.map(({ Id, ApexClassId, Name }) => ({
+              Id,
+              ApexClassId,
+              ApexClass: { Name, NamespacePrefix: null as string }
+            }))
+          };
+        }
+        const name = /Name = '(\w+)'/.exec(query)[1];
+        return { records: classIds[name] ? [{ Id: classIds[name] }] : [] };
+      });
+    };
+
+    beforeEach(async () => {
+      toolingDestroyStub = sandboxStub
+        .stub(mockConnection.tooling, 'destroy')
+        .resolves({ success: true, id: 'xxxxxxx243', errors: [] });
+      toolingUpdateStub = sandboxStub
+        .stub(mockConnection.tooling, 'update')
+        .resolves({ success: true, id: 'xxxxxxx243', errors: [] });
+      dir = await mkdtemp(join(tmpdir(), 'test-suites-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should remove test classes from a suite', async () => {
+      stubQueries({ oldSuite: 'xxxxxxx243' }, [
+        { Id: '7xx000000001', ApexClassId: 'xxxxxxx004', Name: 'testClassOne' }
+      ]);
+      const consoleSpy = sandboxStub.spy(console, 'log');
+
+      const testService = new TestService(mockConnection);
+      await testService.removeFromSuite('oldSuite', [
+        'testClassOne',
+        'testClassTwo'
+      ]);
+
+      expect(
+        toolingDestroyStub.calledOnceWith('TestSuiteMembership', '7xx000000001')
+      ).to.be.true;
+      expect(consoleSpy.args).to.have.deep.members([
+        [
+          nls.localize('classRemovedFromSuiteMsg', ['testClassOne', 'oldSuite'])
+        ],
+        [nls.localize('classNotInSuiteMsg', ['testClassTwo', 'oldSuite'])]
+      ]);
+    });
+
+    it('should delete a suite', async () => {
+      stubQueries({ oldSuite: 'xxxxxxx243' }, []);
+
+      const testService = new TestService(mockConnection);
+      await testService.deleteSuite('oldSuite');
+
+      expect(toolingDestroyStub.calledOnceWith('ApexTestSuite', 'xxxxxxx243'))
+        .to.be.true;
+    });
+
+    it('should throw an error when deleting a missing suite', async () => {
+      stubQueries({}, []);
+
+      const testService = new TestService(mockConnection);
+      try {
+        await testService.deleteSuite('missingSuite');
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(nls.localize('missingSuiteErr'));
+      }
+      expect(toolingDestroyStub.notCalled).to.be.true;
+    });
+
+    it('should rename a suite', async () => {
+      stubQueries({ oldSuite: 'xxxxxxx243' }, []);
+
+      const testService = new TestService(mockConnection);
+      await testService.renameSuite('oldSuite', 'newSuite');
+
+      expect(toolingUpdateStub.firstCall.args).to.eql([
+        'ApexTestSuite',
+        { Id: 'xxxxxxx243', TestSuiteName: 'newSuite' }
+      ]);
+    });
+
+    it('should not rename a suite to the name of another suite', async () => {
+      stubQueries({ oldSuite: 'xxxxxxx243', newSuite: 'xxxxxxx244' }, []);
+
+      const testService = new TestService(mockConnection);
+      try {
+        await testService.renameSuite('oldSuite', 'newSuite');
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(nls.localize('suiteExistsErr', 'newSuite'));
+      }
+      expect(toolingUpdateStub.notCalled).to.be.true;
+    });
+
+    it('should export a suite to a metadata file', async () => {
+      stubQueries({ oldSuite: 'xxxxxxx243' }, [
+        { Id: '7xx000000002', ApexClassId: 'xxxxxxx006', Name: 'testClassTwo' },
+        { Id: '7xx000000001', ApexClassId: 'xxxxxxx004', Name: 'testClassOne' }
+      ]);
+
+      const testService = new TestService(mockConnection);
+      const filePath = await testService.exportSuite('oldSuite', dir);
+
+      expect(filePath).to.equal(join(dir, 'oldSuite.testSuite-meta.xml'));
+      expect(await readTestSuiteFile(filePath)).to.eql({
+        suiteName: 'oldSuite',
+        testClassNames: ['testClassOne', 'testClassTwo']
+      });
+    });
+
+    it('should sync a suite with a metadata file', async () => {
+      stubQueries({ oldSuite: 'xxxxxxx243' }, [
+        { Id: '7xx000000001', ApexClassId: 'xxxxxxx004', Name: 'testClassOne' },
+        { Id: '7xx000000002', ApexClassId: 'xxxxxxx006', Name: 'testClassTwo' }
+      ]);
+      const filePath = await writeTestSuiteFile(dir, {
+        suiteName: 'oldSuite',
+        testClassNames: ['testClassOne', 'testClassThree']
+      });
+
+      const testService = new TestService(mockConnection);
+      const result = await testService.syncSuite(filePath);
+
+      expect(result).to.eql({
+        suiteName: 'oldSuite',
+        created: false,
+        added: ['testClassThree'],
+        removed: ['testClassTwo']
+      });
+      expect(toolingCreateStub.firstCall.args).to.eql([
+        'TestSuiteMembership',
+        { ApexClassId: 'xxxxxxx008', ApexTestSuiteId: 'xxxxxxx243' }
+      ]);
+      expect(toolingDestroyStub.firstCall.args).to.eql([
+        'TestSuiteMembership',
+        '7xx000000002'
+      ]);
+    });
+
+    it('should create a missing suite when syncing', async () => {
+      stubQueries({}, []);
+      toolingCreateStub.resolves({ id: 'xxxxxxx245' });
+      const filePath = await writeTestSuiteFile(dir, {
+        suiteName: 'newSuite',
+        testClassNames: ['testClassOne']
+      });
+
+      const testService = new TestService(mockConnection);
+      const result = await testService.syncSuite(filePath);
+
+      expect(result).to.eql({
+        suiteName: 'newSuite',
+        created: true,
+        added: ['testClassOne'],
+        removed: []
+      });
+      expect(toolingCreateStub.firstCall.args).to.eql([
+        'ApexTestSuite',
+        { TestSuiteName: 'newSuite' }
+      ]);
+      expect(toolingCreateStub.secondCall.args).to.eql([
+        'TestSuiteMembership',
+        { ApexClassId: 'xxxxxxx004', ApexTestSuiteId: 'xxxxxxx245' }
+      ]);
+    });
+
+    it('should not create a suite for a file naming missing classes', async () => {
+      stubQueries({}, []);
+      const filePath = await writeTestSuiteFile(dir, {
+        suiteName: 'newSuite',
+        testClassNames: ['testClassOne', 'missingClass']
+      });
+
+      try {
+        await new TestService(mockConnection).syncSuite(filePath);
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(
+          nls.localize('missingTestClassErr', 'missingClass')
+        );
+      }
+      expect(toolingCreateStub.notCalled).to.be.true;
+    });
+
+    it('should add a class listed twice once', async () => {
+      stubQueries({ oldSuite: 'xxxxxxx243' }, []);
+      const filePath = await writeTestSuiteFile(dir, {
+        suiteName: 'oldSuite',
+        testClassNames: ['testClassOne', 'testClassOne']
+      });
+
+      const result = await new TestService(mockConnection).syncSuite(filePath);
+
+      expect(result.added).to.eql(['testClassOne']);
+      expect(toolingCreateStub.calledOnce).to.be.true;
+    });
+  });
+
   describe('Build Test Payload', async () => {
     it('should add all the tests specified even when some belong to the same class', async () => {
       const testsPayload = {
@@ -522,4 +759,73 @@ describe('Apex Test Suites', async () => {
       });
     });
   });
+
+  describe('Repeat Test Runs', () => {
+    it('should run the tests for each iteration and report stability', async () => {
+      const testService = new TestService(mockConnection);
+      const passing = structuredClone(testResultData);
+      const failing = structuredClone(testResultData);
+      failing.tests[0].outcome = ApexTestResultOutcome.Fail;
+      const runStub = sandboxStub
+        .stub(testService, 'runTestAsynchronous')
+        .onFirstCall()
+        .resolves(passing)
+        .onSecondCall()
+        .resolves(failing);
+      const tests = [
+        { className: 'TestLogger', testMethods: ['testLoggerLog'] }
+      ];
+
+      const report = await testService.runTestsRepeatedly({
+        tests,
+        iterations: 2
+      });
+
+      expect(runStub.callCount).to.equal(2);
+      expect(runStub.firstCall.args[0]).to.deep.equal({
+        tests,
+        testLevel: TestLevel.RunSpecifiedTests,
+        skipCodeCoverage: true
+      });
+      expect(report.completedIterations).to.equal(2);
+      expect(report.tests[0]).to.deep.include({
+        fullName: 't3st.TestLogger.testLoggerLog',
+        passed: 1,
+        failed: 1,
+        nondeterministic: true
+      });
+    });
+
+    it('should stop repeating when a run does not complete', async () => {
+      const testService = new TestService(mockConnection);
+      const runStub = sandboxStub
+        .stub(testService, 'runTestAsynchronous')
+        .onFirstCall()
+        .resolves(structuredClone(testResultData))
+        .onSecondCall()
+        .resolves({ testRunId: '707xx0000000002' });
+
+      const report = await testService.runTestsRepeatedly({
+        tests: [{ className: 'TestLogger' }],
+        iterations: 5
+      });
+
+      expect(runStub.callCount).to.equal(2);
+      expect(report).to.deep.include({ iterations: 5, completedIterations: 1 });
+    });
+
+    it('should reject an invalid number of iterations', async () => {
+      try {
+        await new TestService(mockConnection).runTestsRepeatedly({
+          tests: [{ className: 'TestLogger' }],
+          iterations: 0
+        });
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(
+          nls.localize('invalidRepeatIterationsErr', '0')
+        );
+      }
+    });
+  });
 });
@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { nls } from '../../src/i18n';
+import {
+  buildTestSuiteMetadata,
+  readTestSuiteFile,
+  writeTestSuiteFile
+} from '../../src/tests/testSuiteMetadata';
+
+describe('Test suite metadata', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'test-suite-metadata-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should build ApexTestSuite metadata', () => {
+    expect(buildTestSuiteMetadata(['AccountTest', 'ns.ContactTest'])).to.equal(
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<ApexTestSuite xmlns="http://soap.sforce.com/2006/04/metadata">\n' +
+        '    <testClassName>AccountTest</testClassName>\n' +
+        '    <testClassName>ns.ContactTest</testClassName>\n' +
+        '</ApexTestSuite>\n'
+    );
+  });
+
+  it('should write and read back a suite', async () => {
+    const filePath = await writeTestSuiteFile(join(dir, 'testSuites'), {
+      suiteName: 'Regression',
+      testClassNames: ['AccountTest', 'ContactTest']
+    });
+
+    expect(filePath).to.equal(
+      join(dir, 'testSuites', 'Regression.testSuite-meta.xml')
+    );
+    expect(await readTestSuiteFile(filePath)).to.eql({
+      suiteName: 'Regression',
+      testClassNames: ['AccountTest', 'ContactTest']
+    });
+  });
+
+  it('should read a suite formatted by hand', async () => {
+    const filePath = join(dir, 'Smoke.testSuite-meta.xml');
+    await writeFile(
+      filePath,
+      '<?xml version="1.0" encoding="UTF-8"?>\n<ApexTestSuite xmlns="http://soap.sforce.com/2006/04/metadata"><testClassName> AccountTest </testClassName>\n\n<testClassName>ContactTest</testClassName></ApexTestSuite>'
+    );
+
+    expect((await readTestSuiteFile(filePath)).testClassNames).to.eql([
+      'AccountTest',
+      'ContactTest'
+    ]);
+    expect(await readFile(filePath, 'utf8')).to.contain('ApexTestSuite');
+  });
+
+  it('should reject files that are not test suites', async () => {
+    const filePath = join(dir, 'AccountTest.cls-meta.xml');
+    await writeFile(filePath, '<ApexClass/>');
+
+    try {
+      await readTestSuiteFile(filePath);
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect(e.message).to.equal(
+        nls.localize('invalidTestSuiteFileErr', filePath)
+      );
+    }
+  });
+});
@@ -0,0 +1,49 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { fail } from 'assert';
+import { expect } from 'chai';
+import { nls } from '../../src/i18n';
+import { mapWithConcurrency } from '../../src/utils/concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should keep the order of the items', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (delay) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return delay * 2;
+    });
+    expect(results).to.deep.equal([60, 20, 40]);
+  });
+
+  it('should not exceed the concurrency limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    });
+    expect(maxRunning).to.equal(2);
+  });
+
+  it('should handle no items', async () => {
+    expect(await mapWithConcurrency([], 3, async () => 1)).to.deep.equal([]);
+  });
+
+  it('should reject a limit that is not a positive integer', async () => {
+    for (const limit of [0, -1, 1.5, NaN]) {
+      try {
+        await mapWithConcurrency([1], limit, async () => 1);
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(
+          nls.localize('concurrency_invalid_limit', String(limit))
+        );
+      }
+    }
+  });
+});
@@ -0,0 +1,114 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  diffDebugLevels,
+  loadDebugLevelDefinitions
+} from '../../src/utils/debugLevels';
+import { nls } from '../../src/i18n';
+
+describe('Debug Levels', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'debug-levels-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeDefinitions = async (content: string): Promise<string> => {
+    const filePath = join(dir, 'debugLevels.json');
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  it('should load an array of definitions', async () => {
+    const filePath = await writeDefinitions(
+      JSON.stringify([
+        {
+          developerName: 'Team',
+          levels: { apexCode: 'finest', Database: 'INFO' }
+        }
+      ])
+    );
+
+    expect(await loadDebugLevelDefinitions(filePath)).to.eql([
+      {
+        developerName: 'Team',
+        levels: { ApexCode: 'FINEST', Database: 'INFO' }
+      }
+    ]);
+  });
+
+  it('should load definitions keyed by developer name', async () => {
+    const filePath = await writeDefinitions(
+      JSON.stringify({ Team: { Callout: 'DEBUG' }, Quiet: { System: 'NONE' } })
+    );
+
+    expect(await loadDebugLevelDefinitions(filePath)).to.eql([
+      { developerName: 'Team', levels: { Callout: 'DEBUG' } },
+      { developerName: 'Quiet', levels: { System: 'NONE' } }
+    ]);
+  });
+
+  it('should reject unknown categories and levels', async () => {
+    const filePath = await writeDefinitions(
+      JSON.stringify({ Team: { ApexCode: 'LOUD' } })
+    );
+
+    try {
+      await loadDebugLevelDefinitions(filePath);
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect(e.message).to.equal(
+        nls.localize('debug_levels_invalid_level', ['Team', 'ApexCode', 'LOUD'])
+      );
+    }
+  });
+
+  it('should reject a file that is not JSON', async () => {
+    const filePath = await writeDefinitions('ApexCode=FINEST');
+
+    try {
+      await loadDebugLevelDefinitions(filePath);
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect(e.message).to.equal(
+        nls.localize('debug_levels_invalid_file', filePath)
+      );
+    }
+  });
+
+  it('should report a missing file', async () => {
+    const filePath = join(dir, 'missing.json');
+
+    try {
+      await loadDebugLevelDefinitions(filePath);
+      expect.fail('Expected an error');
+    } catch (e) {
+      expect(e.message).to.equal(
+        nls.localize('debug_levels_file_not_found', filePath)
+      );
+    }
+  });
+
+  it('should only diff the categories set in the definition', () => {
+    const changes = diffDebugLevels(
+      { developerName: 'Team', levels: { ApexCode: 'FINEST', System: 'INFO' } },
+      { ApexCode: 'FINEST', System: 'DEBUG', Database: 'INFO' }
+    );
+
+    expect(changes).to.eql([
+      { category: 'System', localLevel: 'INFO', orgLevel: 'DEBUG' }
+    ]);
+  });
+});
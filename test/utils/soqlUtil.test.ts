@@ -0,0 +1,41 @@
+/*
+ * Copyright (c) 2026, salesforce.com, inc.
+ * All rights reserved.
+ * Licensed under the BSD 3-Clause license.
+ * For full license text, see LICENSE.txt file in the repo root or https://opensource.org/licenses/BSD-3-Clause
+ */
+import { expect } from 'chai';
+import { nls } from '../../src/i18n';
+import {
+  escapeSoqlString,
+  toSoqlDateTime,
+  toSoqlList
+} from '../../src/utils/soqlUtil';
+
+describe('SOQL Utils', () => {
+  it('should escape quotes and backslashes', () => {
+    expect(escapeSoqlString("O'Brien\\")).to.equal("O\\'Brien\\\\");
+  });
+
+  it('should build a list of quoted values', () => {
+    expect(toSoqlList(['Api', "O'Brien"])).to.equal("('Api','O\\'Brien')");
+  });
+
+  it('should format a datetime literal', () => {
+    expect(toSoqlDateTime('2024-01-31T12:00:00.000Z')).to.equal(
+      '2024-01-31T12:00:00Z'
+    );
+    expect(toSoqlDateTime(new Date(Date.UTC(2024, 0, 1)))).to.equal(
+      '2024-01-01T00:00:00Z'
+    );
+  });
+
+  it('should reject an invalid datetime', () => {
+    expect(() => toSoqlDateTime('not a date')).to.throw(
+      nls.localize('soql_invalid_datetime', 'not a date')
+    );
+    expect(() => toSoqlDateTime(new Date(NaN))).to.throw(
+      nls.localize('soql_invalid_datetime', 'Invalid Date')
+    );
+  });
+});
@@ -277,4 +277,328 @@ describe('Trace Flags', () => {
       );
     }
   });
+
+  describe('Lifecycle', () => {
+    const HOUR = 60 * 60 * 1000;
+
+    beforeEach(() => {
+      flags = new TraceFlags(mockConnection);
+      queryStub = sb.stub(mockConnection, 'query');
+      toolingCreateStub = sb.stub(mockConnection.tooling, 'create');
+      toolingQueryStub = sb.stub(mockConnection.tooling, 'query');
+      toolingUpdateStub = sb.stub(mockConnection.tooling, 'update');
+    });
+
+    it('should list trace flags with their debug levels', async () => {
+      toolingQueryStub.onFirstCall().resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ Id: 'Class1' }]
+      });
+      toolingQueryStub.onSecondCall().resolves({
+        done: true,
+        totalSize: 2,
+        records: [
+          {
+            Id: '7tf1',
+            LogType: 'CLASS_TRACING',
+            TracedEntityId: 'Class1',
+            TracedEntity: { Name: 'MyClass' },
+            StartDate: null,
+            ExpirationDate: new Date(Date.now() + HOUR).toISOString(),
+            DebugLevelId: '7dl1',
+            DebugLevel: { DeveloperName: 'Trace', ApexCode: 'FINEST' }
+          },
+          {
+            Id: '7tf2',
+            LogType: 'CLASS_TRACING',
+            TracedEntityId: 'Class1',
+            TracedEntity: { Name: 'MyClass' },
+            StartDate: null,
+            ExpirationDate: new Date(Date.now() - HOUR).toISOString(),
+            DebugLevelId: '7dl1',
+            DebugLevel: { DeveloperName: 'Trace', ApexCode: 'FINEST' }
+          }
+        ]
+      });
+
+      const result = await flags.listTraceFlags({
+        tracedEntity: { type: 'ApexClass', name: 'ns.MyClass' },
+        logTypes: ['CLASS_TRACING']
+      });
+
+      expect(toolingQueryStub.firstCall.args[0]).to.equal(
+        "SELECT Id FROM ApexClass WHERE Name = 'MyClass' AND NamespacePrefix = 'ns'"
+      );
+      expect(toolingQueryStub.secondCall.args[0]).to.contain(
+        "WHERE TracedEntityId = 'Class1' AND LogType IN ('CLASS_TRACING')"
+      );
+      expect(result.map((flag) => flag.expired)).to.eql([false, true]);
+      expect(result[0]).to.include({
+        id: '7tf1',
+        tracedEntityName: 'MyClass',
+        debugLevelName: 'Trace',
+        startDate: undefined
+      });
+      expect(result[0].levels).to.eql({ ApexCode: 'FINEST' });
+    });
+
+    it('should create a trace flag with a new debug level', async () => {
+      queryStub.resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ Id: USER_ID }]
+      });
+      toolingQueryStub.resolves({ done: true, totalSize: 0, records: [] });
+      toolingCreateStub
+        .onFirstCall()
+        .resolves({ success: true, id: '7dl1' })
+        .onSecondCall()
+        .resolves({ success: true, id: '7tf1' });
+      const startDate = new Date();
+      const expirationDate = new Date(startDate.getTime() + HOUR);
+
+      const id = await flags.addTraceFlag({
+        tracedEntity: { type: 'User', name: "o'brien@example.com" },
+        startDate,
+        expirationDate,
+        debugLevel: { developerName: 'Trace', levels: { ApexCode: 'FINEST' } }
+      });
+
+      expect(id).to.equal('7tf1');
+      expect(queryStub.firstCall.args[0]).to.equal(
+        "SELECT Id FROM User WHERE Username = 'o\\'brien@example.com'"
+      );
+      expect(toolingCreateStub.firstCall.args).to.eql([
+        'DebugLevel',
+        { DeveloperName: 'Trace', MasterLabel: 'Trace', ApexCode: 'FINEST' }
+      ]);
+      expect(toolingCreateStub.secondCall.args).to.eql([
+        'TraceFlag',
+        {
+          TracedEntityId: USER_ID,
+          LogType: 'USER_DEBUG',
+          DebugLevelId: '7dl1',
+          StartDate: startDate.toISOString(),
+          ExpirationDate: expirationDate.toISOString()
+        }
+      ]);
+    });
+
+    it('should update an existing debug level definition', async () => {
+      toolingQueryStub
+        .onFirstCall()
+        .resolves({ done: true, totalSize: 1, records: [{ Id: 'Trig1' }] })
+        .onSecondCall()
+        .resolves({ done: true, totalSize: 1, records: [{ Id: '7dl1' }] });
+      toolingUpdateStub.resolves({ success: true });
+      toolingCreateStub.resolves({ success: true, id: '7tf1' });
+
+      await flags.addTraceFlag({
+        tracedEntity: { type: 'ApexTrigger', name: 'AccountTrigger' },
+        expirationDate: new Date(Date.now() + HOUR),
+        debugLevel: { developerName: 'Trace', levels: { Database: 'FINE' } }
+      });
+
+      expect(toolingUpdateStub.firstCall.args).to.eql([
+        'DebugLevel',
+        { Id: '7dl1', Database: 'FINE' }
+      ]);
+      expect(toolingCreateStub.firstCall.args[1]).to.include({
+        LogType: 'CLASS_TRACING',
+        DebugLevelId: '7dl1'
+      });
+    });
+
+    it('should not look up a traced entity id that is given', async () => {
+      toolingQueryStub.resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ Id: '7dl1' }]
+      });
+      toolingCreateStub.resolves({ success: true, id: '7tf1' });
+
+      await flags.addTraceFlag({
+        tracedEntity: { type: 'User', name: 'user@example.com' },
+        tracedEntityId: USER_ID,
+        expirationDate: new Date(Date.now() + HOUR),
+        debugLevel: 'Trace'
+      });
+
+      expect(queryStub.called).to.equal(false);
+      expect(toolingCreateStub.firstCall.args[1]).to.include({
+        TracedEntityId: USER_ID,
+        DebugLevelId: '7dl1'
+      });
+    });
+
+    it('should reject a window longer than 24 hours', async () => {
+      try {
+        await flags.addTraceFlag({
+          tracedEntity: { type: 'User', name: 'user@example.com' },
+          expirationDate: new Date(Date.now() + 25 * HOUR),
+          debugLevel: 'Trace'
+        });
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(nls.localize('trace_flags_invalid_window'));
+      }
+      expect(queryStub.called).to.equal(false);
+    });
+
+    it('should raise error for an unknown class', async () => {
+      toolingQueryStub.resolves({ done: true, totalSize: 0, records: [] });
+      try {
+        await flags.resolveTracedEntityId({
+          type: 'ApexClass',
+          name: 'Missing'
+        });
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(
+          nls.localize('trace_flags_unknown_entity', ['ApexClass', 'Missing'])
+        );
+      }
+    });
+
+    it('should look up a trigger without a namespace outside of namespaces', async () => {
+      toolingQueryStub.resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ Id: 'Trigger1' }]
+      });
+
+      const id = await flags.resolveTracedEntityId({
+        type: 'ApexTrigger',
+        name: 'MyTrigger'
+      });
+
+      expect(id).to.equal('Trigger1');
+      expect(toolingQueryStub.firstCall.args[0]).to.equal(
+        "SELECT Id FROM ApexTrigger WHERE Name = 'MyTrigger' AND NamespacePrefix = null"
+      );
+    });
+
+    it('should raise error when more than one class matches', async () => {
+      toolingQueryStub.resolves({
+        done: true,
+        totalSize: 2,
+        records: [{ Id: 'Class1' }, { Id: 'Class2' }]
+      });
+      try {
+        await flags.resolveTracedEntityId({
+          type: 'ApexClass',
+          name: 'MyClass'
+        });
+        fail('Expected an error');
+      } catch (e) {
+        expect(e.message).to.equal(
+          nls.localize('trace_flags_ambiguous_entity', ['ApexClass', 'MyClass'])
+        );
+      }
+    });
+
+    it('should not write a debug level that already matches', async () => {
+      toolingQueryStub.resolves({
+        done: true,
+        totalSize: 1,
+        records: [
+          {
+            Id: '7dl1',
+            DeveloperName: 'Team',
+            ApexCode: 'FINEST',
+            Database: 'INFO'
+          }
+        ]
+      });
+
+      const result = await flags.applyDebugLevel({
+        developerName: 'Team',
+        levels: { ApexCode: 'FINEST', Database: 'INFO' }
+      });
+
+      expect(result).to.eql({
+        developerName: 'Team',
+        debugLevelId: '7dl1',
+        status: 'unchanged',
+        changes: []
+      });
+      expect(toolingUpdateStub.called).to.equal(false);
+      expect(toolingCreateStub.called).to.equal(false);
+    });
+
+    it('should report the levels that differ from the org', async () => {
+      toolingQueryStub.resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ Id: '7dl1', DeveloperName: 'Team', ApexCode: 'DEBUG' }]
+      });
+
+      const diff = await flags.diffDebugLevel({
+        developerName: 'Team',
+        levels: { ApexCode: 'FINEST' }
+      });
+
+      expect(toolingQueryStub.firstCall.args[0]).to.match(
+        /FROM DebugLevel WHERE DeveloperName = 'Team'$/
+      );
+      expect(diff).to.eql({
+        developerName: 'Team',
+        debugLevelId: '7dl1',
+        changes: [
+          { category: 'ApexCode', localLevel: 'FINEST', orgLevel: 'DEBUG' }
+        ]
+      });
+    });
+
+    it('should point an existing trace flag at a defined debug level', async () => {
+      queryStub.resolves({
+        done: true,
+        totalSize: 1,
+        records: [{ Id: USER_ID }]
+      });
+      toolingQueryStub
+        .onFirstCall()
+        .resolves({
+          done: true,
+          totalSize: 1,
+          records: [{ Id: '7tf1', DebugLevelId: '7dl0', ExpirationDate: null }]
+        })
+        .onSecondCall()
+        .resolves({ done: true, totalSize: 0, records: [] });
+      toolingCreateStub.resolves({ success: true, id: '7dl1' });
+      toolingUpdateStub.resolves({ success: true });
+
+      const ensure = await flags.ensureTraceFlags({
+        developerName: 'Team',
+        levels: { ApexCode: 'FINE' }
+      });
+
+      expect(ensure).to.equal(true);
+      expect(toolingUpdateStub.callCount).to.equal(1);
+      expect(toolingUpdateStub.firstCall.args[0]).to.equal('TraceFlag');
+      expect(toolingUpdateStub.firstCall.args[1]).to.include({
+        Id: '7tf1',
+        DebugLevelId: '7dl1'
+      });
+    });
+
+    it('should extend and delete trace flags', async () => {
+      toolingUpdateStub.resolves({ success: true });
+      const destroyStub = sb
+        .stub(mockConnection.tooling, 'destroy')
+        .resolves({ success: true, id: '7tf1' } as never);
+      const expirationDate = new Date(Date.now() + HOUR);
+
+      expect(await flags.extendTraceFlag('7tf1', expirationDate)).to.equal(
+        true
+      );
+      expect(await flags.deleteTraceFlag('7tf1')).to.equal(true);
+      expect(toolingUpdateStub.firstCall.args).to.eql([
+        'TraceFlag',
+        { Id: '7tf1', ExpirationDate: expirationDate.toISOString() }
+      ]);
+      expect(destroyStub.firstCall.args).to.eql(['TraceFlag', '7tf1']);
+    });
+  });
 });